@@ -0,0 +1,142 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { RestResponse } from "../dto/controller-response.ts";
+
+const DEFAULT_BATCH_SIZE = 1000;
+const MAX_BATCH_SIZE = 5000;
+
+interface CleanupExpiredIdempotencyKeysResponse {
+  deletedKeyCount: number;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders() });
+  }
+
+  if (req.method !== "POST") {
+    return jsonError("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+  }
+
+  try {
+    authorizeCronRequest(req);
+
+    const batchSize = getBatchSizeFromRequest(req);
+    const supabase = createSupabaseAdminClient();
+    const { data, error } = await supabase.rpc(
+      "cleanup_expired_idempotency_keys",
+      { p_limit: batchSize },
+    );
+
+    if (error) {
+      console.error(
+        "[CLEANUP IDEMPOTENCY KEYS] Failed to delete expired keys:",
+        error,
+      );
+      return jsonError(
+        "Failed to delete expired idempotency keys",
+        500,
+        "DELETE_IDEMPOTENCY_KEYS_FAILED",
+      );
+    }
+
+    return jsonSuccess<CleanupExpiredIdempotencyKeysResponse>({
+      deletedKeyCount: typeof data === "number" ? data : 0,
+    });
+  } catch (error) {
+    console.error("[CLEANUP IDEMPOTENCY KEYS] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const status = message.includes("Unauthorized") ? 401 : 500;
+    const errorCode = message.includes("Unauthorized")
+      ? "UNAUTHORIZED"
+      : "INTERNAL_ERROR";
+    return jsonError(message, status, errorCode);
+  }
+});
+
+function createSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+function authorizeCronRequest(req: Request): void {
+  const expectedSecret = Deno.env.get("IDEMPOTENCY_CLEANUP_CRON_SECRET");
+  const providedSecret = req.headers.get("x-cron-secret");
+
+  if (!expectedSecret) {
+    throw new Error("Unauthorized: missing IDEMPOTENCY_CLEANUP_CRON_SECRET");
+  }
+
+  if (!providedSecret || providedSecret !== expectedSecret) {
+    throw new Error("Unauthorized");
+  }
+}
+
+function getBatchSizeFromRequest(req: Request): number {
+  const url = new URL(req.url);
+  const raw = Number.parseInt(url.searchParams.get("batchSize") ?? "", 10);
+
+  if (!Number.isFinite(raw) || raw <= 0) {
+    return DEFAULT_BATCH_SIZE;
+  }
+
+  return Math.min(raw, MAX_BATCH_SIZE);
+}
+
+function corsHeaders(): HeadersInit {
+  return {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, x-cron-secret",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonSuccess<T>(data: T, status = 200): Response {
+  const body: RestResponse<T> = {
+    success: true,
+    error: null,
+    error_code: null,
+    data,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function jsonError(
+  message: string,
+  status = 500,
+  error_code: string | null = null,
+): Response {
+  const body: RestResponse<null> = {
+    success: false,
+    error: message,
+    error_code,
+    data: null,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
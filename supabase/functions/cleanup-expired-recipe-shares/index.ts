@@ -5,16 +5,24 @@ import type { RestResponse } from "../dto/controller-response.ts";
 const SHARED_IMAGE_BUCKET = "shared-recipe-images";
 const DEFAULT_BATCH_SIZE = 100;
 const MAX_BATCH_SIZE = 500;
+// Ended shares stay listable as expired or revoked, and keep answering with
+// that state, for this long after their images are deleted.
+const TOMBSTONE_RETENTION = "30 days";
 
 interface CleanupCandidateRow {
   id: string;
   image_path: string | null;
+  image_variant_paths: Record<string, string> | null;
+  /** Bundle recipe images: null or `{ original, thumbnail, og }` per recipe. */
+  item_image_paths: Array<Record<string, string> | null> | null;
 }
 
 interface CleanupExpiredRecipeSharesResponse {
+  purgedShareCount: number;
   deletedShareCount: number;
   deletedImageCount: number;
   skippedShareCount: number;
+  deletedUploadCount: number;
 }
 
 Deno.serve(async (req) => {
@@ -32,59 +40,20 @@ Deno.serve(async (req) => {
     const batchSize = getBatchSizeFromRequest(req);
     const supabase = createSupabaseAdminClient();
     const rows = await getCleanupCandidates(supabase, batchSize);
-
-    if (rows.length === 0) {
-      await cleanupRequestWindows(supabase);
-
-      return jsonSuccess<CleanupExpiredRecipeSharesResponse>({
-        deletedShareCount: 0,
-        deletedImageCount: 0,
-        skippedShareCount: 0,
-      });
-    }
-
-    const imagePaths = Array.from(
-      new Set(
-        rows
-          .map((row) => row.image_path)
-          .filter((path): path is string =>
-            typeof path === "string" && path.length > 0
-          ),
-      ),
+    const purge = await purgeShareImages(supabase, rows);
+    const deletedShareCount = await deleteShareTombstones(supabase);
+    const deletedUploadCount = await cleanupExpiredImageUploads(
+      supabase,
+      batchSize,
     );
-
-    const imageDeleteResult = await deleteSharedImages(supabase, imagePaths);
-    const shareIdsToDelete = rows
-      .filter((row) =>
-        !row.image_path || imageDeleteResult.deletedPaths.has(row.image_path)
-      )
-      .map((row) => row.id);
-
-    if (shareIdsToDelete.length > 0) {
-      const { error } = await supabase
-        .from("shared_recipe_links")
-        .delete()
-        .in("id", shareIdsToDelete);
-
-      if (error) {
-        console.error(
-          "[CLEANUP SHARED RECIPE SHARES] Failed to delete rows:",
-          error,
-        );
-        return jsonError(
-          "Failed to delete expired share rows",
-          500,
-          "DELETE_SHARES_FAILED",
-        );
-      }
-    }
-
     await cleanupRequestWindows(supabase);
 
     return jsonSuccess<CleanupExpiredRecipeSharesResponse>({
-      deletedShareCount: shareIdsToDelete.length,
-      deletedImageCount: imageDeleteResult.deletedPaths.size,
-      skippedShareCount: rows.length - shareIdsToDelete.length,
+      purgedShareCount: purge.purgedShareCount,
+      deletedShareCount,
+      deletedImageCount: purge.deletedImageCount,
+      skippedShareCount: rows.length - purge.purgedShareCount,
+      deletedUploadCount,
     });
   } catch (error) {
     console.error("[CLEANUP SHARED RECIPE SHARES] Error:", error);
@@ -141,6 +110,7 @@ async function getCleanupCandidates(
   supabase: SupabaseClient,
   batchSize: number,
 ): Promise<CleanupCandidateRow[]> {
+  // Never-expiring links (expires_at IS NULL) are only returned once revoked.
   const { data, error } = await supabase.rpc(
     "get_expired_shared_recipe_links_for_cleanup",
     { p_limit: batchSize },
@@ -157,12 +127,106 @@ async function getCleanupCandidates(
   return (data ?? []) as CleanupCandidateRow[];
 }
 
+/**
+ * Delete the images of ended shares and clear their paths. The rows stay as
+ * tombstones; a row is only marked purged once all of its originals are gone.
+ */
+async function purgeShareImages(
+  supabase: SupabaseClient,
+  rows: CleanupCandidateRow[],
+): Promise<{ purgedShareCount: number; deletedImageCount: number }> {
+  if (rows.length === 0) {
+    return { purgedShareCount: 0, deletedImageCount: 0 };
+  }
+
+  const imagePaths = Array.from(
+    new Set(
+      rows
+        .flatMap(getShareImagePaths)
+        .filter((path): path is string =>
+          typeof path === "string" && path.length > 0
+        ),
+    ),
+  );
+
+  const imageDeleteResult = await deleteSharedImages(supabase, imagePaths);
+  const shareIdsToPurge = rows
+    .filter((row) =>
+      getOriginalImagePaths(row).every((path) =>
+        imageDeleteResult.deletedPaths.has(path)
+      )
+    )
+    .map((row) => row.id);
+
+  if (shareIdsToPurge.length > 0) {
+    const { error } = await supabase
+      .from("shared_recipe_links")
+      .update({
+        image_path: null,
+        image_variant_paths: {},
+        item_image_paths: [],
+        images_purged_at: new Date().toISOString(),
+      })
+      .in("id", shareIdsToPurge);
+
+    if (error) {
+      console.error(
+        "[CLEANUP SHARED RECIPE SHARES] Failed to mark shares purged:",
+        error,
+      );
+      throw new Error("Failed to mark expired shares purged");
+    }
+  }
+
+  return {
+    purgedShareCount: shareIdsToPurge.length,
+    deletedImageCount: imageDeleteResult.deletedPaths.size,
+  };
+}
+
+async function deleteShareTombstones(
+  supabase: SupabaseClient,
+): Promise<number> {
+  const { data, error } = await supabase.rpc(
+    "delete_shared_recipe_link_tombstones",
+    { p_retention: TOMBSTONE_RETENTION },
+  );
+
+  if (error) {
+    console.error(
+      "[CLEANUP SHARED RECIPE SHARES] Failed to delete share tombstones:",
+      error,
+    );
+    return 0;
+  }
+
+  return typeof data === "number" ? data : 0;
+}
+
+function getShareImagePaths(row: CleanupCandidateRow): Array<string | null> {
+  return [
+    row.image_path,
+    ...Object.values(row.image_variant_paths ?? {}),
+    ...(row.item_image_paths ?? []).flatMap((item) =>
+      Object.values(item ?? {})
+    ),
+  ];
+}
+
+/** A row is deleted once all of its originals are gone; variants are best effort. */
+function getOriginalImagePaths(row: CleanupCandidateRow): string[] {
+  return [
+    row.image_path,
+    ...(row.item_image_paths ?? []).map((item) => item?.original ?? null),
+  ].filter((path): path is string => Boolean(path));
+}
+
 async function deleteSharedImages(
   supabase: SupabaseClient,
   imagePaths: string[],
-): Promise<{ deletedPaths: Set<string> }> {
+): Promise<{ deletedPaths: Set<string>; failed: boolean }> {
   if (imagePaths.length === 0) {
-    return { deletedPaths: new Set<string>() };
+    return { deletedPaths: new Set<string>(), failed: false };
   }
 
   const { data, error } = await supabase.storage
@@ -174,7 +238,7 @@ async function deleteSharedImages(
       "[CLEANUP SHARED RECIPE SHARES] Failed to delete images:",
       error,
     );
-    return { deletedPaths: new Set<string>() };
+    return { deletedPaths: new Set<string>(), failed: true };
   }
 
   const deletedPaths = new Set<string>();
@@ -184,19 +248,79 @@ async function deleteSharedImages(
     }
   }
 
-  return { deletedPaths };
+  return { deletedPaths, failed: false };
 }
 
-async function cleanupRequestWindows(supabase: SupabaseClient): Promise<void> {
-  const { error } = await supabase.rpc(
-    "cleanup_shared_recipe_link_request_windows",
+// Reservations from prepare_image_upload that were never finalised into a share.
+async function cleanupExpiredImageUploads(
+  supabase: SupabaseClient,
+  batchSize: number,
+): Promise<number> {
+  const { data, error } = await supabase.rpc(
+    "get_expired_shared_recipe_image_uploads_for_cleanup",
+    { p_limit: batchSize },
   );
 
   if (error) {
     console.error(
-      "[CLEANUP SHARED RECIPE SHARES] Failed to cleanup request windows:",
+      "[CLEANUP SHARED RECIPE SHARES] Failed to fetch expired uploads:",
       error,
     );
+    return 0;
+  }
+
+  const uploads = (data ?? []) as CleanupCandidateRow[];
+  if (uploads.length === 0) {
+    return 0;
+  }
+
+  const imagePaths = uploads
+    .map((upload) => upload.image_path)
+    .filter((path): path is string =>
+      typeof path === "string" && path.length > 0
+    );
+  const imageDeleteResult = await deleteSharedImages(supabase, imagePaths);
+
+  // Storage omits paths that were never uploaded, so only a failed remove call keeps rows.
+  const uploadIdsToDelete = uploads
+    .filter((upload) => !upload.image_path || !imageDeleteResult.failed)
+    .map((upload) => upload.id);
+  if (uploadIdsToDelete.length === 0) {
+    return 0;
+  }
+
+  const { error: deleteError } = await supabase
+    .from("shared_recipe_image_uploads")
+    .delete()
+    .in("id", uploadIdsToDelete);
+
+  if (deleteError) {
+    console.error(
+      "[CLEANUP SHARED RECIPE SHARES] Failed to delete expired uploads:",
+      deleteError,
+    );
+    return 0;
+  }
+
+  return uploadIdsToDelete.length;
+}
+
+async function cleanupRequestWindows(supabase: SupabaseClient): Promise<void> {
+  for (
+    const rpcName of [
+      "cleanup_shared_recipe_link_request_windows",
+      "cleanup_user_action_rate_limit_windows",
+      "cleanup_shared_recipe_link_pin_attempts",
+    ]
+  ) {
+    const { error } = await supabase.rpc(rpcName);
+
+    if (error) {
+      console.error(
+        `[CLEANUP SHARED RECIPE SHARES] Failed to cleanup request windows (${rpcName}):`,
+        error,
+      );
+    }
   }
 }
 
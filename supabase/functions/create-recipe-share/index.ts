@@ -1,12 +1,53 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { getAuthenticatedUserOrThrow } from "../utils/auth.ts";
+import { withIdempotency } from "../utils/idempotency.ts";
+import {
+  DEFAULT_SHARE_TTL_MS,
+  isShareExpiryAllowed,
+  parseShareExpiryOption,
+  resolveShareExpiresAt,
+  SHARE_EXPIRY_PLAN_OPTIONS,
+  type ShareExpiryOption,
+  type SharePlan,
+} from "../utils/share-expiry.ts";
+import { hashSharePin, parseSharePin } from "../utils/share-pin.ts";
+import {
+  checkShareItemCount,
+  checkSharePayloadSize,
+  checkShareTextLength,
+  sanitizeShareAttribution,
+  sanitizeShareText,
+  sanitizeShareUrl,
+  SHARE_CONTENT_LIMITS,
+  type ShareContentViolation,
+} from "../utils/share-content-policy.ts";
+import { screenShareContent } from "../utils/share-content-screening.ts";
+import {
+  buildUserRateLimitHeaders,
+  checkUserRateLimit,
+} from "../utils/user-rate-limit.ts";
+import {
+  computeShareContentHash,
+  sha256HexOfBytes,
+} from "../utils/share-content-hash.ts";
+import {
+  processSharedImage,
+  SHARED_IMAGE_VARIANT_FILE_NAMES,
+  type SharedImageVariant,
+} from "../utils/shared-image-processing.ts";
 import type { RestResponse } from "../dto/controller-response.ts";
 
-const SHARE_TTL_MS = 3 * 24 * 60 * 60 * 1000;
 const SHARED_IMAGE_BUCKET = "shared-recipe-images";
 const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Supabase signed upload URLs are valid for two hours.
+const IMAGE_UPLOAD_RESERVATION_TTL_MS = 2 * 60 * 60 * 1000;
+const ALLOWED_IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png"];
 const DEFAULT_SHARE_BASE_URL = "https://kerisik.app/shared/recipe";
+const MIN_BUNDLE_RECIPES = 2;
+const MAX_BUNDLE_RECIPES = 20;
+// Cover plus one image per bundle recipe.
+const MAX_IMAGE_UPLOADS_PER_SHARE = MAX_BUNDLE_RECIPES + 1;
 
 type Json = Record<string, unknown>;
 
@@ -40,6 +81,24 @@ interface SharedRecipePayload {
   attribution?: Json | null;
 }
 
+type ShareType = "recipe" | "bundle";
+
+/** A meal or collection shared as one link; `recipes` are full snapshots. */
+interface SharedRecipeBundlePayload {
+  title: string;
+  description?: string | null;
+  coverImageUrl?: string | null;
+  source?: { type: "meal" | "collection"; id: string | null } | null;
+  recipes: SharedRecipePayload[];
+  attribution?: Json | null;
+}
+
+interface SharedRecipeBundleRequest
+  extends Omit<SharedRecipeBundlePayload, "recipes"> {
+  /** Each recipe may carry an `imagePath` from `prepare_image_upload`. */
+  recipes: Array<SharedRecipePayload & { imagePath?: string | null }>;
+}
+
 interface ImageUploadInput {
   base64Data: string;
   contentType?: string | null;
@@ -47,16 +106,100 @@ interface ImageUploadInput {
 }
 
 interface CreateRecipeShareRequest {
-  recipe: SharedRecipePayload;
+  action?: "prepare_image_upload" | null;
+  type?: ShareType | null;
+  recipe?: SharedRecipePayload | null;
+  bundle?: SharedRecipeBundleRequest | null;
+  /** Legacy inline upload; prefer `prepare_image_upload` + `imagePath`. */
   imageUpload?: ImageUploadInput | null;
+  /** Path returned by `prepare_image_upload`, after the client uploaded to it. */
+  imagePath?: string | null;
+  contentType?: string | null;
+  fileName?: string | null;
+  /** With `prepare_image_upload`: add another upload under an already prepared token. */
+  token?: string | null;
+  expiresIn?: ShareExpiryOption | null;
+  /** 4–8 digits; viewers must supply it to see the recipe. */
+  pin?: string | null;
 }
 
 interface CreateRecipeShareResponse {
   shareUrl: string;
   token: string;
-  expiresAt: string;
+  /** null when the link never expires. */
+  expiresAt: string | null;
+  expiresIn: ShareExpiryOption | null;
+  pinProtected: boolean;
+  shareType: ShareType;
+  /** True when an existing link with identical content was returned. */
+  reused: boolean;
 }
 
+interface PrepareImageUploadResponse {
+  token: string;
+  imagePath: string;
+  uploadUrl: string;
+  uploadToken: string;
+  contentType: string;
+  maxBytes: number;
+  uploadExpiresAt: string;
+}
+
+/** Sanitised image stored under `shares/{uid}/{token}/`. */
+interface StoredSharedImage {
+  path: string;
+  variantPaths: { thumbnail: string; og: string };
+}
+
+type ImageFailure = {
+  ok: false;
+  status: number;
+  errorCode: string;
+  message: string;
+};
+
+type UploadedImageCheck =
+  | { ok: true; token: string; path: string; reservationId: string }
+  | ImageFailure;
+
+/** A `shared_recipe_image_uploads` row, as deleted by a finalise call. */
+type ClaimedReservation = Record<string, unknown>;
+
+/** A directly uploaded image and the folder its variants are written to. */
+interface DirectImageTarget {
+  imagePath: string | null;
+  folderSuffix: string | null;
+}
+
+/**
+ * Verified direct uploads of one share, index-aligned with its targets. Only
+ * the hashes are kept: a bundle can hold 21 images of up to 10MB each.
+ */
+interface VerifiedDirectUploads {
+  token: string;
+  reservationIds: string[];
+  rawPaths: Array<string | null>;
+  hashes: Array<string | null>;
+}
+
+interface UserProfile {
+  id: string;
+  plan: SharePlan;
+}
+
+/**
+ * Creates a public share snapshot of a personal recipe, or with
+ * `type: "bundle"` of a meal or collection as several recipe snapshots.
+ *
+ * Images are uploaded in two phases: `{ "action": "prepare_image_upload" }`
+ * reserves a share token and returns a signed upload URL under
+ * `shares/{uid}/{token}/`; the client uploads straight to Storage and then
+ * creates the share with `imagePath`. The object is verified before the share
+ * row is written.
+ *
+ * Every image is decoded and re-encoded without metadata, and stored as
+ * `original.jpg` next to `thumbnail.jpg` and `og.jpg` (1200×630).
+ */
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders() });
@@ -69,72 +212,379 @@ Deno.serve(async (req) => {
   try {
     const supabase = createSupabaseAdminClient();
     const authUser = await getAuthenticatedUserOrThrow(supabase, req);
-    const userProfileId = await getUserProfileIdOrThrow(supabase, authUser.id);
+    const userProfile = await getUserProfileOrThrow(supabase, authUser.id);
+    const userProfileId = userProfile.id;
 
     const body = await req.json() as CreateRecipeShareRequest;
-    const recipe = normalizeRecipePayload(body?.recipe);
-    const expiresAt = new Date(Date.now() + SHARE_TTL_MS).toISOString();
-    const token = generateShareToken();
-
-    let imagePath: string | null = null;
-    let imageUrl = recipe.imageUrl ?? null;
+    let rateLimitHeaders: Record<string, string> = {};
+
+    const response = await withIdempotency(supabase, req, {
+      scope: "create-recipe-share",
+      userProfileId,
+      requestBody: body,
+      logPrefix: "[CREATE RECIPE SHARE]",
+      errorResponse: jsonError,
+    }, async () => {
+      // Counted only when the request runs: replaying a stored response is
+      // free, and a 429 releases the key so the retry can run later.
+      const rateLimit = await checkUserRateLimit(
+        supabase,
+        userProfileId,
+        body?.action === "prepare_image_upload"
+          ? "prepare_share_image_upload"
+          : "create_recipe_share",
+        "[CREATE RECIPE SHARE]",
+      );
+      rateLimitHeaders = rateLimit ? buildUserRateLimitHeaders(rateLimit) : {};
+      if (rateLimit && !rateLimit.allowed) {
+        return jsonError(
+          "Too many share requests; try again later",
+          429,
+          "RATE_LIMITED",
+          rateLimitHeaders,
+        );
+      }
 
-    if (body?.imageUpload) {
-      try {
-        const uploaded = await uploadSharedImage(
+      if (body?.action === "prepare_image_upload") {
+        return await prepareImageUpload(
           supabase,
           authUser.id,
-          token,
-          body.imageUpload,
+          userProfileId,
+          body,
         );
-        imagePath = uploaded.path;
-        imageUrl = null;
-      } catch (uploadError) {
-        console.warn(
-          "[CREATE RECIPE SHARE] Continuing without uploaded image:",
-          uploadError,
+      }
+
+      const hasShareType = body?.type !== undefined && body?.type !== null;
+      if (hasShareType && body.type !== "recipe" && body.type !== "bundle") {
+        return jsonError(
+          "type must be one of recipe, bundle",
+          400,
+          "INVALID_SHARE_TYPE",
         );
       }
-    }
+      const shareType: ShareType = body?.type === "bundle"
+        ? "bundle"
+        : "recipe";
+      const violations: ShareContentViolation[] = [];
+      const recipe = shareType === "recipe"
+        ? normalizeRecipePayload(body?.recipe, violations)
+        : null;
+      const bundle = shareType === "bundle"
+        ? normalizeBundlePayload(body?.bundle, violations)
+        : null;
+      checkSharePayloadSize(
+        violations,
+        shareType,
+        recipe ?? bundle?.payload,
+        bundle
+          ? SHARE_CONTENT_LIMITS.bundlePayloadBytes
+          : SHARE_CONTENT_LIMITS.recipePayloadBytes,
+      );
+      if (violations.length > 0) {
+        return jsonContentViolations(violations);
+      }
 
-    const recipePayloadForStorage: SharedRecipePayload = {
-      ...recipe,
-      imageUrl,
-      attribution: {
-        ...(recipe.attribution ?? {}),
-        sharedAt: new Date().toISOString(),
-      },
-    };
+      const screening = await screenShareContent(
+        shareType,
+        userProfileId,
+        recipe ?? bundle?.payload,
+        "[CREATE RECIPE SHARE]",
+      );
+      if (screening.verdict === "reject") {
+        console.warn("[CREATE RECIPE SHARE] Share rejected by screening:", {
+          userProfileId,
+          reasons: screening.reasons,
+        });
+        return jsonContentViolations([{
+          code: "CONTENT_REJECTED",
+          field: null,
+          message: "This content can't be shared",
+          reasons: screening.reasons,
+        }]);
+      }
 
-    const { error: insertError } = await supabase
-      .from("shared_recipe_links")
-      .insert({
-        token,
-        owner_user_profile_id: userProfileId,
-        recipe_payload: recipePayloadForStorage,
-        image_path: imagePath,
-        expires_at: expiresAt,
+      const hasExpiryChoice = body?.expiresIn !== undefined &&
+        body?.expiresIn !== null;
+      const expiresIn = hasExpiryChoice
+        ? parseShareExpiryOption(body.expiresIn)
+        : null;
+      if (hasExpiryChoice && !expiresIn) {
+        return jsonError(
+          "expiresIn must be one of 1d, 7d, 30d, never",
+          400,
+          "INVALID_SHARE_EXPIRY",
+        );
+      }
+      if (expiresIn && !isShareExpiryAllowed(expiresIn, userProfile.plan)) {
+        return jsonError(
+          `expiresIn ${expiresIn} is not available on the ${userProfile.plan} plan (allowed: ${
+            SHARE_EXPIRY_PLAN_OPTIONS[userProfile.plan].join(", ")
+          })`,
+          403,
+          "SHARE_EXPIRY_NOT_ALLOWED",
+        );
+      }
+
+      const hasPin = body?.pin !== undefined && body?.pin !== null &&
+        body?.pin !== "";
+      const pin = hasPin ? parseSharePin(body.pin) : null;
+      if (hasPin && !pin) {
+        return jsonError(
+          "pin must be 4 to 8 digits",
+          400,
+          "INVALID_SHARE_PIN",
+        );
+      }
+      const pinHash = pin ? await hashSharePin(pin) : null;
+
+      const expiresAt = expiresIn
+        ? resolveShareExpiresAt(expiresIn)
+        : new Date(Date.now() + DEFAULT_SHARE_TTL_MS).toISOString();
+      let token = generateShareToken();
+
+      let storedImage: StoredSharedImage | null = null;
+      let itemImages: Array<StoredSharedImage | null> = [];
+      let imageUrl = recipe?.imageUrl ?? bundle?.payload.coverImageUrl ?? null;
+      let uploadedRawPaths: string[] = [];
+
+      // The single-recipe image keeps its variants directly in the token folder.
+      const coverImagePath = asTrimmedString(body?.imagePath) || null;
+      const directImageTargets: DirectImageTarget[] = bundle
+        ? [
+          { imagePath: coverImagePath, folderSuffix: "cover" },
+          ...bundle.recipeImagePaths.map((imagePath, index) => ({
+            imagePath,
+            folderSuffix: `recipes/${index}`,
+          })),
+        ]
+        : [{ imagePath: coverImagePath, folderSuffix: null }];
+
+      // Image bytes are read before anything is stored, so a repeat share
+      // can be answered without processing or uploading.
+      let directUploads: VerifiedDirectUploads | null = null;
+      let legacyImageBytes: Uint8Array | null = null;
+      if (directImageTargets.some((target) => target.imagePath)) {
+        const verified = await verifyDirectUploadedImages(
+          supabase,
+          userProfileId,
+          directImageTargets,
+        );
+        if (!verified.ok) {
+          return jsonError(
+            verified.message,
+            verified.status,
+            verified.errorCode,
+          );
+        }
+        directUploads = verified.uploads;
+      } else if (recipe && body?.imageUpload) {
+        legacyImageBytes = decodeLegacyImageUpload(body.imageUpload);
+      }
+
+      const imageHashes = directUploads?.hashes ??
+        [legacyImageBytes ? await sha256HexOfBytes(legacyImageBytes) : null];
+      const contentHash = await computeShareContentHash({
+        shareType,
+        payload: recipe ?? bundle?.payload,
+        imageHashes,
       });
 
-    if (insertError) {
-      if (imagePath) {
-        await supabase.storage.from(SHARED_IMAGE_BUCKET).remove([imagePath]);
+      // PIN-protected shares are never reused: the PIN is part of the intent.
+      if (!pinHash) {
+        const existing = await reuseExistingShare(
+          supabase,
+          userProfileId,
+          contentHash,
+          expiresAt,
+        );
+        if (existing) {
+          if (directUploads) {
+            await discardDirectUploads(supabase, userProfileId, directUploads);
+          }
+          // The link keeps its own expiry unless this request extended it.
+          return jsonSuccess<CreateRecipeShareResponse>({
+            shareUrl: buildShareUrl(existing.token),
+            token: existing.token,
+            expiresAt: existing.expiresAt,
+            expiresIn: existing.refreshed
+              ? expiresIn
+              : existing.expiresAt === null
+              ? "never"
+              : null,
+            pinProtected: false,
+            shareType,
+            reused: true,
+          }, 200);
+        }
       }
-      console.error("[CREATE RECIPE SHARE] Insert failed:", insertError);
-      return jsonError(
-        "Failed to create recipe share",
-        500,
-        "CREATE_SHARE_FAILED",
+
+      let claimedReservations: ClaimedReservation[] = [];
+      if (directUploads) {
+        const claimed = await claimDirectUploads(
+          supabase,
+          userProfileId,
+          directUploads,
+        );
+        if (!claimed.ok) {
+          return jsonError(claimed.message, claimed.status, claimed.errorCode);
+        }
+        claimedReservations = claimed.reservations;
+
+        let direct: Awaited<ReturnType<typeof storeDirectUploadedImages>>;
+        try {
+          direct = await storeDirectUploadedImages(
+            supabase,
+            directImageTargets,
+            directUploads,
+          );
+        } catch (storeError) {
+          await restoreDirectUploadReservations(supabase, claimedReservations);
+          throw storeError;
+        }
+        if (!direct.ok) {
+          await restoreDirectUploadReservations(supabase, claimedReservations);
+          return jsonError(direct.message, direct.status, direct.errorCode);
+        }
+        token = directUploads.token;
+        [storedImage, ...itemImages] = direct.images;
+        if (storedImage) {
+          imageUrl = null;
+        }
+        uploadedRawPaths = uniqueRawPaths(directUploads);
+      } else if (legacyImageBytes) {
+        try {
+          const uploaded = await uploadSharedImage(
+            supabase,
+            authUser.id,
+            token,
+            legacyImageBytes,
+          );
+          storedImage = uploaded;
+          imageUrl = null;
+        } catch (uploadError) {
+          console.warn(
+            "[CREATE RECIPE SHARE] Continuing without uploaded image:",
+            uploadError,
+          );
+        }
+      }
+
+      const sharedAt = new Date().toISOString();
+      const payloadForStorage: SharedRecipePayload | SharedRecipeBundlePayload =
+        bundle
+          ? {
+            ...bundle.payload,
+            coverImageUrl: imageUrl,
+            recipes: bundle.payload.recipes.map((item, index) =>
+              itemImages[index] ? { ...item, imageUrl: null } : item
+            ),
+            attribution: {
+              ...(bundle.payload.attribution ?? {}),
+              sharedAt,
+            },
+          }
+          : {
+            ...recipe!,
+            imageUrl,
+            attribution: {
+              ...(recipe!.attribution ?? {}),
+              sharedAt,
+            },
+          };
+
+      const storedImages = [storedImage, ...itemImages].filter(
+        (image): image is StoredSharedImage => image !== null,
       );
-    }
 
-    const response: CreateRecipeShareResponse = {
-      shareUrl: buildShareUrl(token),
-      token,
-      expiresAt,
-    };
+      const { error: insertError } = await supabase
+        .from("shared_recipe_links")
+        .insert({
+          token,
+          owner_user_profile_id: userProfileId,
+          share_type: shareType,
+          recipe_payload: payloadForStorage,
+          image_path: storedImage?.path ?? null,
+          image_variant_paths: storedImage?.variantPaths ?? {},
+          item_image_paths: bundle
+            ? bundle.payload.recipes.map((_, index) => {
+              const itemImage = itemImages[index];
+              return itemImage
+                ? { original: itemImage.path, ...itemImage.variantPaths }
+                : null;
+            })
+            : [],
+          expires_at: expiresAt,
+          pin_hash: pinHash,
+          content_hash: contentHash,
+          moderation_status: screening.verdict === "flag" ? "flagged" : "clean",
+          moderation_reasons: screening.reasons,
+        });
+
+      if (insertError) {
+        const tokenTaken = uploadedRawPaths.length > 0 &&
+          insertError.code === "23505";
+        // A share already owns this token, and the variant paths are derived
+        // from it: those files are its live images and must stay.
+        if (storedImages.length > 0 && !tokenTaken) {
+          await supabase.storage
+            .from(SHARED_IMAGE_BUCKET)
+            .remove(
+              storedImages.flatMap(storedImagePaths).filter((path) =>
+                !uploadedRawPaths.includes(path)
+              ),
+            );
+        }
+        console.error("[CREATE RECIPE SHARE] Insert failed:", insertError);
+        if (tokenTaken) {
+          return jsonError(
+            "This image upload has already been used for a share",
+            409,
+            "SHARE_IMAGE_ALREADY_USED",
+          );
+        }
+        // Directly uploaded images get their reservations back so the client
+        // can retry.
+        await restoreDirectUploadReservations(supabase, claimedReservations);
+        return jsonError(
+          "Failed to create recipe share",
+          500,
+          "CREATE_SHARE_FAILED",
+        );
+      }
+
+      const storedPaths = new Set(storedImages.flatMap(storedImagePaths));
+      const unsanitisedPaths = uploadedRawPaths.filter((path) =>
+        !storedPaths.has(path)
+      );
+      if (unsanitisedPaths.length > 0) {
+        const { error: rawRemoveError } = await supabase.storage
+          .from(SHARED_IMAGE_BUCKET)
+          .remove(unsanitisedPaths);
+        if (rawRemoveError) {
+          console.warn(
+            "[CREATE RECIPE SHARE] Failed to remove unsanitised uploads:",
+            rawRemoveError,
+          );
+        }
+      }
 
-    return jsonSuccess(response, 201);
+      const response: CreateRecipeShareResponse = {
+        shareUrl: buildShareUrl(token),
+        token,
+        expiresAt,
+        expiresIn,
+        pinProtected: pinHash !== null,
+        shareType,
+        reused: false,
+      };
+
+      return jsonSuccess(response, 201);
+    });
+
+    for (const [name, value] of Object.entries(rateLimitHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
   } catch (error) {
     console.error("[CREATE RECIPE SHARE] Error:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -168,13 +618,13 @@ function createSupabaseAdminClient(): SupabaseClient {
   });
 }
 
-async function getUserProfileIdOrThrow(
+async function getUserProfileOrThrow(
   supabase: SupabaseClient,
   authUserId: string,
-): Promise<string> {
+): Promise<UserProfile> {
   const { data, error } = await supabase
     .from("user_profile")
-    .select("id")
+    .select("id, is_pro")
     .eq("auth_id", authUserId)
     .single();
 
@@ -182,22 +632,33 @@ async function getUserProfileIdOrThrow(
     throw new Error("User profile not found");
   }
 
-  return data.id as string;
+  return {
+    id: data.id as string,
+    plan: data.is_pro === true ? "pro" : "free",
+  };
 }
 
-function normalizeRecipePayload(input: unknown): SharedRecipePayload {
+function normalizeRecipePayload(
+  input: unknown,
+  violations: ShareContentViolation[],
+  field = "recipe",
+): SharedRecipePayload {
   if (!input || typeof input !== "object") {
     throw new Error("recipe is required");
   }
 
   const recipe = input as Record<string, unknown>;
-  const title = asTrimmedString(recipe.title);
+  const title = sanitizeShareText(recipe.title);
   if (!title) {
     throw new Error("recipe.title is required");
   }
 
-  const ingredients = normalizeIngredientGroups(recipe.ingredients);
-  const steps = normalizeStepGroups(recipe.steps);
+  const ingredients = normalizeIngredientGroups(
+    recipe.ingredients,
+    violations,
+    `${field}.ingredients`,
+  );
+  const steps = normalizeStepGroups(recipe.steps, violations, `${field}.steps`);
 
   if (ingredients.length === 0) {
     throw new Error("recipe.ingredients must contain at least one item");
@@ -207,42 +668,194 @@ function normalizeRecipePayload(input: unknown): SharedRecipePayload {
     throw new Error("recipe.steps must contain at least one item");
   }
 
+  const description = sanitizeShareText(recipe.description) || null;
+  checkShareTextLength(
+    violations,
+    `${field}.title`,
+    title,
+    SHARE_CONTENT_LIMITS.titleChars,
+  );
+  checkShareTextLength(
+    violations,
+    `${field}.description`,
+    description,
+    SHARE_CONTENT_LIMITS.descriptionChars,
+  );
+  checkShareItemCount(
+    violations,
+    `${field}.ingredients`,
+    ingredients.reduce(
+      (count, group) => count + group.sub_ingredients.length,
+      0,
+    ),
+    SHARE_CONTENT_LIMITS.ingredientsPerRecipe,
+  );
+  checkShareItemCount(
+    violations,
+    `${field}.steps`,
+    steps.reduce((count, group) => count + group.sub_steps.length, 0),
+    SHARE_CONTENT_LIMITS.stepsPerRecipe,
+  );
+
   return {
     title,
-    description: asNullableTrimmedString(recipe.description),
-    imageUrl: asNullableTrimmedString(recipe.imageUrl),
+    description,
+    imageUrl: sanitizeShareUrl(asNullableTrimmedString(recipe.imageUrl)),
     cookingTime: asNullableNumber(recipe.cookingTime),
     servingSuggestions: asNullableNumber(recipe.servingSuggestions),
     ingredients,
     steps,
-    attribution: isPlainObject(recipe.attribution)
-      ? recipe.attribution as Json
-      : null,
+    attribution: sanitizeShareAttribution(
+      violations,
+      `${field}.attribution`,
+      recipe.attribution,
+    ),
   };
 }
 
-function normalizeIngredient(input: unknown): SharedRecipeIngredient | null {
+function normalizeBundlePayload(
+  input: unknown,
+  violations: ShareContentViolation[],
+): {
+  payload: SharedRecipeBundlePayload;
+  recipeImagePaths: Array<string | null>;
+} {
+  if (!isPlainObject(input)) {
+    throw new Error("bundle is required");
+  }
+
+  const bundle = input as Record<string, unknown>;
+  const title = sanitizeShareText(bundle.title);
+  if (!title) {
+    throw new Error("bundle.title is required");
+  }
+  const description = sanitizeShareText(bundle.description) || null;
+  checkShareTextLength(
+    violations,
+    "bundle.title",
+    title,
+    SHARE_CONTENT_LIMITS.titleChars,
+  );
+  checkShareTextLength(
+    violations,
+    "bundle.description",
+    description,
+    SHARE_CONTENT_LIMITS.descriptionChars,
+  );
+
+  const recipesInput = Array.isArray(bundle.recipes) ? bundle.recipes : [];
+  if (
+    recipesInput.length < MIN_BUNDLE_RECIPES ||
+    recipesInput.length > MAX_BUNDLE_RECIPES
+  ) {
+    throw new Error(
+      `bundle.recipes must contain between ${MIN_BUNDLE_RECIPES} and ${MAX_BUNDLE_RECIPES} recipes`,
+    );
+  }
+
+  const recipes = recipesInput.map((item, index) => {
+    try {
+      return normalizeRecipePayload(
+        item,
+        violations,
+        `bundle.recipes[${index}]`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "invalid recipe";
+      throw new Error(`bundle.recipes[${index}]: ${message}`);
+    }
+  });
+  const recipeImagePaths = recipesInput.map((item) =>
+    asTrimmedString((item as Record<string, unknown>).imagePath) || null
+  );
+
+  const source = isPlainObject(bundle.source)
+    ? bundle.source as Record<string, unknown>
+    : null;
+  const sourceType = source?.type === "meal" || source?.type === "collection"
+    ? source.type
+    : null;
+
+  return {
+    payload: {
+      title,
+      description,
+      coverImageUrl: sanitizeShareUrl(
+        asNullableTrimmedString(bundle.coverImageUrl),
+      ),
+      source: sourceType
+        ? { type: sourceType, id: asNullableTrimmedString(source?.id) }
+        : null,
+      recipes,
+      attribution: sanitizeShareAttribution(
+        violations,
+        "bundle.attribution",
+        bundle.attribution,
+      ),
+    },
+    recipeImagePaths,
+  };
+}
+
+function normalizeIngredient(
+  input: unknown,
+  violations: ShareContentViolation[],
+  field: string,
+): SharedRecipeIngredient | null {
   if (!input || typeof input !== "object") {
     return null;
   }
 
   const ingredient = input as Record<string, unknown>;
-  const name = asTrimmedString(ingredient.name);
+  const name = sanitizeShareText(ingredient.name);
   if (!name) {
     return null;
   }
 
+  const quantity = typeof ingredient.quantity === "string"
+    ? sanitizeShareText(ingredient.quantity) || null
+    : asNullableStringOrNumber(ingredient.quantity);
+  const unit = sanitizeShareText(ingredient.unit) || null;
+  const note = sanitizeShareText(ingredient.note) || null;
+
+  checkShareTextLength(
+    violations,
+    `${field}.name`,
+    name,
+    SHARE_CONTENT_LIMITS.ingredientNameChars,
+  );
+  checkShareTextLength(
+    violations,
+    `${field}.quantity`,
+    typeof quantity === "string" ? quantity : null,
+    SHARE_CONTENT_LIMITS.ingredientQuantityChars,
+  );
+  checkShareTextLength(
+    violations,
+    `${field}.unit`,
+    unit,
+    SHARE_CONTENT_LIMITS.ingredientUnitChars,
+  );
+  checkShareTextLength(
+    violations,
+    `${field}.note`,
+    note,
+    SHARE_CONTENT_LIMITS.ingredientNoteChars,
+  );
+
   return {
     name,
-    quantity: asNullableStringOrNumber(ingredient.quantity),
-    unit: asNullableTrimmedString(ingredient.unit),
-    note: asNullableTrimmedString(ingredient.note),
+    quantity,
+    unit,
+    note,
     sortOrder: asNullableNumber(ingredient.sortOrder),
   };
 }
 
 function normalizeIngredientGroups(
   input: unknown,
+  violations: ShareContentViolation[],
+  field: string,
 ): SharedRecipeIngredientGroup[] {
   if (!Array.isArray(input)) {
     return [];
@@ -253,35 +866,51 @@ function normalizeIngredientGroups(
   );
 
   if (!looksGrouped) {
-    const legacyItems = input.map(normalizeIngredient).filter(Boolean) as
-      SharedRecipeIngredient[];
+    const legacyItems = input.map((item, index) =>
+      normalizeIngredient(item, violations, `${field}[${index}]`)
+    ).filter(Boolean) as SharedRecipeIngredient[];
     return legacyItems.length > 0
       ? [{ name: "Ingredients", sub_ingredients: legacyItems, sortOrder: 1 }]
       : [];
   }
 
-  return input.map(normalizeIngredientGroup).filter(Boolean) as
-    SharedRecipeIngredientGroup[];
+  return input.map((item, index) =>
+    normalizeIngredientGroup(item, violations, `${field}[${index}]`)
+  ).filter(Boolean) as SharedRecipeIngredientGroup[];
 }
 
 function normalizeIngredientGroup(
   input: unknown,
+  violations: ShareContentViolation[],
+  field: string,
 ): SharedRecipeIngredientGroup | null {
   if (!input || typeof input !== "object") {
     return null;
   }
 
   const group = input as Record<string, unknown>;
-  const name = asTrimmedString(group.name);
+  const name = sanitizeShareText(group.name);
   const subIngredients = Array.isArray(group.sub_ingredients)
-    ? group.sub_ingredients.map(normalizeIngredient).filter(Boolean) as
-      SharedRecipeIngredient[]
+    ? group.sub_ingredients.map((item, index) =>
+      normalizeIngredient(
+        item,
+        violations,
+        `${field}.sub_ingredients[${index}]`,
+      )
+    ).filter(Boolean) as SharedRecipeIngredient[]
     : [];
 
   if (!name || subIngredients.length === 0) {
     return null;
   }
 
+  checkShareTextLength(
+    violations,
+    `${field}.name`,
+    name,
+    SHARE_CONTENT_LIMITS.groupNameChars,
+  );
+
   return {
     name,
     sub_ingredients: subIngredients,
@@ -289,21 +918,26 @@ function normalizeIngredientGroup(
   };
 }
 
-function normalizeStep(input: unknown): string | null {
-  if (typeof input === "string") {
-    return asTrimmedString(input);
-  }
-
-  if (!input || typeof input !== "object") {
-    return null;
-  }
-
-  const step = input as Record<string, unknown>;
-  const text = asTrimmedString(step.text);
+function normalizeStep(
+  input: unknown,
+  violations: ShareContentViolation[],
+  field: string,
+): string | null {
+  const text = typeof input === "string"
+    ? sanitizeShareText(input)
+    : isPlainObject(input)
+    ? sanitizeShareText((input as Record<string, unknown>).text)
+    : "";
+
+  checkShareTextLength(violations, field, text, SHARE_CONTENT_LIMITS.stepChars);
   return text || null;
 }
 
-function normalizeStepGroups(input: unknown): SharedRecipeStepGroup[] {
+function normalizeStepGroups(
+  input: unknown,
+  violations: ShareContentViolation[],
+  field: string,
+): SharedRecipeStepGroup[] {
   if (!Array.isArray(input)) {
     return [];
   }
@@ -313,72 +947,690 @@ function normalizeStepGroups(input: unknown): SharedRecipeStepGroup[] {
   );
 
   if (!looksGrouped) {
-    const legacyItems = input.map(normalizeStep).filter(Boolean) as
-      string[];
+    const legacyItems = input.map((item, index) =>
+      normalizeStep(item, violations, `${field}[${index}]`)
+    ).filter(Boolean) as string[];
     return legacyItems.length > 0
       ? [{ name: "Steps", sub_steps: legacyItems }]
       : [];
   }
 
-  return input.map(normalizeStepGroup).filter(Boolean) as SharedRecipeStepGroup[];
+  return input.map((item, index) =>
+    normalizeStepGroup(item, violations, `${field}[${index}]`)
+  ).filter(Boolean) as SharedRecipeStepGroup[];
 }
 
-function normalizeStepGroup(input: unknown): SharedRecipeStepGroup | null {
+function normalizeStepGroup(
+  input: unknown,
+  violations: ShareContentViolation[],
+  field: string,
+): SharedRecipeStepGroup | null {
   if (!input || typeof input !== "object") {
     return null;
   }
 
   const group = input as Record<string, unknown>;
-  const name = asTrimmedString(group.name);
+  const name = sanitizeShareText(group.name);
   const subSteps = Array.isArray(group.sub_steps)
-    ? group.sub_steps.map(normalizeSubStep).filter(Boolean) as string[]
+    ? group.sub_steps.map((item, index) =>
+      normalizeSubStep(item, violations, `${field}.sub_steps[${index}]`)
+    ).filter(Boolean) as string[]
     : [];
 
   if (!name || subSteps.length === 0) {
     return null;
   }
 
+  checkShareTextLength(
+    violations,
+    `${field}.name`,
+    name,
+    SHARE_CONTENT_LIMITS.groupNameChars,
+  );
+
   return {
     name,
     sub_steps: subSteps,
   };
 }
 
-function normalizeSubStep(input: unknown): string | null {
-  return normalizeStep(input);
+function normalizeSubStep(
+  input: unknown,
+  violations: ShareContentViolation[],
+  field: string,
+): string | null {
+  return normalizeStep(input, violations, field);
 }
 
 async function uploadSharedImage(
   supabase: SupabaseClient,
   authUserId: string,
   token: string,
+  bytes: Uint8Array,
+): Promise<StoredSharedImage> {
+  if (bytes.byteLength > MAX_IMAGE_BYTES) {
+    throw new Error("imageUpload exceeds 10MB limit");
+  }
+
+  const processed = await processSharedImage(bytes, "[CREATE RECIPE SHARE]");
+  if (!processed.ok) {
+    throw new Error(`${processed.errorCode}: ${processed.message}`);
+  }
+
+  return await storeSharedImageVariants(
+    supabase,
+    `shares/${authUserId}/${token}`,
+    processed.variants,
+    false,
+  );
+}
+
+/** Null (and the share goes ahead without an image) when the base64 is unusable. */
+function decodeLegacyImageUpload(
   imageUpload: ImageUploadInput,
-): Promise<{ path: string }> {
-  const contentType = normalizeContentType(imageUpload.contentType);
+): Uint8Array | null {
+  try {
+    return decodeBase64Image(imageUpload.base64Data);
+  } catch (decodeError) {
+    console.warn(
+      "[CREATE RECIPE SHARE] Continuing without uploaded image:",
+      decodeError,
+    );
+    return null;
+  }
+}
+
+/**
+ * Re-encode a directly uploaded object into the share's variants. The raw
+ * upload is left in place until the share row exists.
+ */
+async function sanitizeUploadedImage(
+  supabase: SupabaseClient,
+  rawPath: string,
+  bytes: Uint8Array,
+  folder: string,
+): Promise<{ ok: true; image: StoredSharedImage } | ImageFailure> {
+  const processed = await processSharedImage(bytes, "[CREATE RECIPE SHARE]");
+  if (!processed.ok) {
+    await supabase.storage.from(SHARED_IMAGE_BUCKET).remove([rawPath]);
+    return {
+      ok: false,
+      status: 422,
+      errorCode: processed.errorCode,
+      message: processed.message,
+    };
+  }
+
+  const image = await storeSharedImageVariants(
+    supabase,
+    folder,
+    processed.variants,
+    true,
+  );
+  return { ok: true, image };
+}
+
+/**
+ * Verify and hash every directly uploaded image of one share. All paths must
+ * belong to the same prepared token. Images are downloaded one at a time and
+ * only their digest is kept.
+ */
+async function verifyDirectUploadedImages(
+  supabase: SupabaseClient,
+  userProfileId: string,
+  targets: DirectImageTarget[],
+): Promise<{ ok: true; uploads: VerifiedDirectUploads } | ImageFailure> {
+  let token: string | null = null;
+  const reservationIds = new Set<string>();
+  const rawPaths: Array<string | null> = [];
+
+  for (const target of targets) {
+    if (!target.imagePath) {
+      rawPaths.push(null);
+      continue;
+    }
+
+    const uploaded = await verifyUploadedImage(
+      supabase,
+      userProfileId,
+      target.imagePath,
+    );
+    if (!uploaded.ok) {
+      return uploaded;
+    }
+    if (token && uploaded.token !== token) {
+      return {
+        ok: false,
+        status: 400,
+        errorCode: "SHARE_IMAGE_TOKEN_MISMATCH",
+        message: "All image paths must come from the same prepared share token",
+      };
+    }
+    token = uploaded.token;
+    reservationIds.add(uploaded.reservationId);
+    rawPaths.push(uploaded.path);
+  }
+
+  const hashByPath = new Map<string, string>();
+  for (const rawPath of rawPaths) {
+    if (!rawPath || hashByPath.has(rawPath)) {
+      continue;
+    }
+    const bytes = await downloadUploadedImage(supabase, rawPath);
+    hashByPath.set(rawPath, await sha256HexOfBytes(bytes));
+  }
+
+  return {
+    ok: true,
+    uploads: {
+      token: token as string,
+      reservationIds: Array.from(reservationIds),
+      rawPaths,
+      hashes: rawPaths.map((rawPath) =>
+        rawPath ? hashByPath.get(rawPath) ?? null : null
+      ),
+    },
+  };
+}
+
+async function downloadUploadedImage(
+  supabase: SupabaseClient,
+  rawPath: string,
+): Promise<Uint8Array> {
+  const { data: blob, error: downloadError } = await supabase.storage
+    .from(SHARED_IMAGE_BUCKET)
+    .download(rawPath);
+
+  if (downloadError || !blob) {
+    console.error(
+      "[CREATE RECIPE SHARE] Uploaded image download failed:",
+      downloadError,
+    );
+    throw new Error("Failed to process uploaded image");
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Sanitise verified uploads into their variant folders; `images` is
+ * index-aligned with `targets`. Each upload is downloaded again and released
+ * before the next, so one image is decoded at a time. On failure, variants
+ * already written are removed again.
+ */
+async function storeDirectUploadedImages(
+  supabase: SupabaseClient,
+  targets: DirectImageTarget[],
+  uploads: VerifiedDirectUploads,
+): Promise<
+  { ok: true; images: Array<StoredSharedImage | null> } | ImageFailure
+> {
+  const images: Array<StoredSharedImage | null> = [];
+  for (const [index, rawPath] of uploads.rawPaths.entries()) {
+    if (!rawPath) {
+      images.push(null);
+      continue;
+    }
+
+    const tokenFolder = rawPath.slice(0, rawPath.lastIndexOf("/"));
+    const folderSuffix = targets[index].folderSuffix;
+    const sanitized = await sanitizeUploadedImage(
+      supabase,
+      rawPath,
+      await downloadUploadedImage(supabase, rawPath),
+      folderSuffix ? `${tokenFolder}/${folderSuffix}` : tokenFolder,
+    );
+    if (!sanitized.ok) {
+      const written = images.filter((image): image is StoredSharedImage =>
+        image !== null
+      );
+      if (written.length > 0) {
+        await supabase.storage
+          .from(SHARED_IMAGE_BUCKET)
+          .remove(written.flatMap(storedImagePaths));
+      }
+      return sanitized;
+    }
+    images.push(sanitized.image);
+  }
+
+  return { ok: true, images };
+}
+
+/**
+ * Delete the verified reservations before anything is written. Of two
+ * finalise calls for one prepared token, only the one whose delete returns
+ * every reservation goes on to write the token's variant files.
+ */
+async function claimDirectUploads(
+  supabase: SupabaseClient,
+  userProfileId: string,
+  uploads: VerifiedDirectUploads,
+): Promise<{ ok: true; reservations: ClaimedReservation[] } | ImageFailure> {
+  const { data, error } = await supabase
+    .from("shared_recipe_image_uploads")
+    .delete()
+    .eq("token", uploads.token)
+    .eq("owner_user_profile_id", userProfileId)
+    .in("id", uploads.reservationIds)
+    .select("*");
+
+  if (error) {
+    console.error("[CREATE RECIPE SHARE] Reservation claim failed:", error);
+    throw new Error("Failed to verify image upload");
+  }
+
+  const reservations = (data ?? []) as ClaimedReservation[];
+  if (reservations.length < uploads.reservationIds.length) {
+    await restoreDirectUploadReservations(supabase, reservations);
+    return {
+      ok: false,
+      status: 409,
+      errorCode: "SHARE_IMAGE_ALREADY_USED",
+      message: "This image upload has already been used for a share",
+    };
+  }
+
+  return { ok: true, reservations };
+}
+
+/** Put claimed reservations back after a failed finalise. */
+async function restoreDirectUploadReservations(
+  supabase: SupabaseClient,
+  reservations: ClaimedReservation[],
+): Promise<void> {
+  if (reservations.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("shared_recipe_image_uploads")
+    .insert(reservations);
+  if (error) {
+    // The cleanup job no longer sees these raw uploads; they stay in the
+    // bucket until removed by hand.
+    console.warn(
+      "[CREATE RECIPE SHARE] Failed to restore upload reservations:",
+      error,
+    );
+  }
+}
+
+function uniqueRawPaths(uploads: VerifiedDirectUploads): string[] {
+  return Array.from(
+    new Set(
+      uploads.rawPaths.filter((path): path is string => path !== null),
+    ),
+  );
+}
+
+/** Drop uploads made for a share that turned out to be a repeat. */
+async function discardDirectUploads(
+  supabase: SupabaseClient,
+  userProfileId: string,
+  uploads: VerifiedDirectUploads,
+): Promise<void> {
+  const { error: removeError } = await supabase.storage
+    .from(SHARED_IMAGE_BUCKET)
+    .remove(uniqueRawPaths(uploads));
+  const { error: reservationError } = await supabase
+    .from("shared_recipe_image_uploads")
+    .delete()
+    .eq("token", uploads.token)
+    .eq("owner_user_profile_id", userProfileId);
+
+  if (removeError || reservationError) {
+    // Leftovers are removed with the expired reservations by the cleanup job.
+    console.warn("[CREATE RECIPE SHARE] Failed to discard repeat uploads:", {
+      removeError,
+      reservationError,
+    });
+  }
+}
+
+/**
+ * The owner's active, PIN-less share with the same content, if any. Its
+ * expiry is pushed out to `expiresAt` when that is later; it is never
+ * shortened.
+ */
+async function reuseExistingShare(
+  supabase: SupabaseClient,
+  userProfileId: string,
+  contentHash: string,
+  expiresAt: string | null,
+): Promise<
+  { token: string; expiresAt: string | null; refreshed: boolean } | null
+> {
+  const nowIso = new Date().toISOString();
+  const { data: existing, error } = await supabase
+    .from("shared_recipe_links")
+    .select("id, token, expires_at")
+    .eq("owner_user_profile_id", userProfileId)
+    .eq("content_hash", contentHash)
+    .is("revoked_at", null)
+    .is("pin_hash", null)
+    .or(`expires_at.is.null,expires_at.gt.${nowIso}`)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    // Creating a duplicate is better than failing the share.
+    console.warn("[CREATE RECIPE SHARE] Existing share lookup failed:", error);
+    return null;
+  }
+
+  if (!existing) {
+    return null;
+  }
+
+  const currentExpiresAt = existing.expires_at as string | null;
+  const extendsExpiry = currentExpiresAt !== null &&
+    (expiresAt === null ||
+      Date.parse(expiresAt) > Date.parse(currentExpiresAt));
+  if (!extendsExpiry) {
+    return {
+      token: existing.token as string,
+      expiresAt: currentExpiresAt,
+      refreshed: false,
+    };
+  }
+
+  const { error: updateError } = await supabase
+    .from("shared_recipe_links")
+    .update({ expires_at: expiresAt })
+    .eq("id", existing.id);
+
+  if (updateError) {
+    console.warn(
+      "[CREATE RECIPE SHARE] Failed to refresh reused share expiry:",
+      updateError,
+    );
+    return {
+      token: existing.token as string,
+      expiresAt: currentExpiresAt,
+      refreshed: false,
+    };
+  }
+
+  return { token: existing.token as string, expiresAt, refreshed: true };
+}
+
+async function storeSharedImageVariants(
+  supabase: SupabaseClient,
+  folder: string,
+  variants: Record<SharedImageVariant, Uint8Array>,
+  upsert: boolean,
+): Promise<StoredSharedImage> {
+  const image: StoredSharedImage = {
+    path: `${folder}/${SHARED_IMAGE_VARIANT_FILE_NAMES.original}`,
+    variantPaths: {
+      thumbnail: `${folder}/${SHARED_IMAGE_VARIANT_FILE_NAMES.thumbnail}`,
+      og: `${folder}/${SHARED_IMAGE_VARIANT_FILE_NAMES.og}`,
+    },
+  };
+
+  const uploads = [
+    { path: image.path, bytes: variants.original },
+    { path: image.variantPaths.thumbnail, bytes: variants.thumbnail },
+    { path: image.variantPaths.og, bytes: variants.og },
+  ];
+
+  for (const upload of uploads) {
+    const { error } = await supabase.storage
+      .from(SHARED_IMAGE_BUCKET)
+      .upload(upload.path, upload.bytes, {
+        contentType: "image/jpeg",
+        upsert,
+      });
+
+    if (error) {
+      console.error("[CREATE RECIPE SHARE] Image upload failed:", {
+        path: upload.path,
+        error,
+      });
+      await supabase.storage
+        .from(SHARED_IMAGE_BUCKET)
+        .remove(uploads.map((item) => item.path));
+      throw new Error("Failed to upload shared image");
+    }
+  }
+
+  return image;
+}
+
+function storedImagePaths(image: StoredSharedImage): string[] {
+  return [image.path, image.variantPaths.thumbnail, image.variantPaths.og];
+}
+
+async function prepareImageUpload(
+  supabase: SupabaseClient,
+  authUserId: string,
+  userProfileId: string,
+  body: CreateRecipeShareRequest,
+): Promise<Response> {
+  const contentType = normalizeContentType(body.contentType);
+  if (!contentType) {
+    return jsonError(
+      "contentType must be image/jpeg or image/png",
+      422,
+      "SHARE_IMAGE_UNSUPPORTED_TYPE",
+    );
+  }
   const extension = extensionFromContentType(contentType);
-  const bytes = decodeBase64Image(imageUpload.base64Data);
+  const existingToken = asTrimmedString(body.token);
+  const token = existingToken || generateShareToken();
+
+  // Further uploads for a bundle join the token of the first reservation.
+  if (existingToken) {
+    const { data: reservations, error: lookupError } = await supabase
+      .from("shared_recipe_image_uploads")
+      .select("id, expires_at")
+      .eq("token", existingToken)
+      .eq("owner_user_profile_id", userProfileId);
+
+    if (lookupError) {
+      console.error(
+        "[CREATE RECIPE SHARE] Reservation lookup failed:",
+        lookupError,
+      );
+      return jsonError(
+        "Failed to prepare image upload",
+        500,
+        "PREPARE_IMAGE_UPLOAD_FAILED",
+      );
+    }
 
-  if (bytes.byteLength > MAX_IMAGE_BYTES) {
-    throw new Error("imageUpload exceeds 10MB limit");
+    const liveReservations = (reservations ?? []).filter((reservation) =>
+      Date.parse(reservation.expires_at as string) > Date.now()
+    );
+    if (liveReservations.length === 0) {
+      return jsonError(
+        "token does not match a prepared image upload",
+        404,
+        "SHARE_IMAGE_UPLOAD_NOT_FOUND",
+      );
+    }
+    if ((reservations ?? []).length >= MAX_IMAGE_UPLOADS_PER_SHARE) {
+      return jsonError(
+        `A share can have at most ${MAX_IMAGE_UPLOADS_PER_SHARE} images`,
+        409,
+        "SHARE_IMAGE_UPLOAD_LIMIT",
+      );
+    }
   }
 
-  const safeFileName = sanitizeFileName(imageUpload.fileName) ??
+  const safeFileName = sanitizeFileName(body.fileName) ??
     `shared-image.${extension}`;
   const path = `shares/${authUserId}/${token}/${safeFileName}`;
+  const uploadExpiresAt = new Date(Date.now() + IMAGE_UPLOAD_RESERVATION_TTL_MS)
+    .toISOString();
 
-  const { error } = await supabase.storage
+  const { data: reservation, error: reservationError } = await supabase
+    .from("shared_recipe_image_uploads")
+    .insert({
+      token,
+      owner_user_profile_id: userProfileId,
+      image_path: path,
+      content_type: contentType,
+      expires_at: uploadExpiresAt,
+    })
+    .select("id")
+    .single();
+
+  if (reservationError?.code === "23505") {
+    return jsonError(
+      "fileName is already reserved for this share token",
+      409,
+      "SHARE_IMAGE_UPLOAD_EXISTS",
+    );
+  }
+
+  if (reservationError || !reservation) {
+    console.error(
+      "[CREATE RECIPE SHARE] Failed to reserve image upload:",
+      reservationError,
+    );
+    return jsonError(
+      "Failed to prepare image upload",
+      500,
+      "PREPARE_IMAGE_UPLOAD_FAILED",
+    );
+  }
+
+  const { data: signed, error: signError } = await supabase.storage
     .from(SHARED_IMAGE_BUCKET)
-    .upload(path, bytes, {
-      contentType,
-      upsert: false,
-    });
+    .createSignedUploadUrl(path);
+
+  if (signError || !signed) {
+    console.error(
+      "[CREATE RECIPE SHARE] Failed to sign image upload:",
+      signError,
+    );
+    await supabase
+      .from("shared_recipe_image_uploads")
+      .delete()
+      .eq("id", reservation.id);
+    return jsonError(
+      "Failed to prepare image upload",
+      500,
+      "PREPARE_IMAGE_UPLOAD_FAILED",
+    );
+  }
+
+  const response: PrepareImageUploadResponse = {
+    token,
+    imagePath: path,
+    uploadUrl: signed.signedUrl,
+    uploadToken: signed.token,
+    contentType,
+    maxBytes: MAX_IMAGE_BYTES,
+    uploadExpiresAt,
+  };
+
+  return jsonSuccess(response, 201);
+}
+
+/** Reservation must be the caller's and unexpired; the object must exist within limits. */
+async function verifyUploadedImage(
+  supabase: SupabaseClient,
+  userProfileId: string,
+  imagePathInput: unknown,
+): Promise<UploadedImageCheck> {
+  const imagePath = asTrimmedString(imagePathInput);
+  const { data: reservation, error } = imagePath
+    ? await supabase
+      .from("shared_recipe_image_uploads")
+      .select("id, token, image_path, expires_at")
+      .eq("image_path", imagePath)
+      .eq("owner_user_profile_id", userProfileId)
+      .maybeSingle()
+    : { data: null, error: null };
 
   if (error) {
-    console.error("[CREATE RECIPE SHARE] Image upload failed:", error);
-    throw new Error("Failed to upload shared image");
+    console.error("[CREATE RECIPE SHARE] Reservation lookup failed:", error);
+    throw new Error("Failed to verify image upload");
+  }
+
+  if (!reservation) {
+    return {
+      ok: false,
+      status: 404,
+      errorCode: "SHARE_IMAGE_UPLOAD_NOT_FOUND",
+      message: "imagePath does not match a prepared image upload",
+    };
+  }
+
+  if (Date.parse(reservation.expires_at as string) <= Date.now()) {
+    return {
+      ok: false,
+      status: 410,
+      errorCode: "SHARE_IMAGE_UPLOAD_EXPIRED",
+      message: "Image upload has expired; prepare a new one",
+    };
+  }
+
+  const path = reservation.image_path as string;
+  const separatorIndex = path.lastIndexOf("/");
+  const folder = path.slice(0, separatorIndex);
+  const fileName = path.slice(separatorIndex + 1);
+  const { data: objects, error: listError } = await supabase.storage
+    .from(SHARED_IMAGE_BUCKET)
+    .list(folder, { search: fileName, limit: 10 });
+
+  if (listError) {
+    console.error("[CREATE RECIPE SHARE] Image lookup failed:", listError);
+    throw new Error("Failed to verify image upload");
+  }
+
+  const object = (objects ?? []).find((item) => item.name === fileName);
+  if (!object) {
+    return {
+      ok: false,
+      status: 422,
+      errorCode: "SHARE_IMAGE_NOT_UPLOADED",
+      message: "No image has been uploaded to imagePath",
+    };
+  }
+
+  const size = Number(object.metadata?.size);
+  const mimeType = String(object.metadata?.mimetype ?? "").toLowerCase();
+
+  if (!Number.isFinite(size) || size <= 0) {
+    return {
+      ok: false,
+      status: 422,
+      errorCode: "SHARE_IMAGE_EMPTY",
+      message: "Uploaded image is empty",
+    };
+  }
+
+  // Rejected objects are removed so the same path can be uploaded again.
+  if (size > MAX_IMAGE_BYTES) {
+    await supabase.storage.from(SHARED_IMAGE_BUCKET).remove([path]);
+    return {
+      ok: false,
+      status: 422,
+      errorCode: "SHARE_IMAGE_TOO_LARGE",
+      message: "Uploaded image exceeds 10MB limit",
+    };
+  }
+
+  if (!ALLOWED_IMAGE_CONTENT_TYPES.includes(mimeType)) {
+    await supabase.storage.from(SHARED_IMAGE_BUCKET).remove([path]);
+    return {
+      ok: false,
+      status: 422,
+      errorCode: "SHARE_IMAGE_UNSUPPORTED_TYPE",
+      message: "Uploaded image must be JPEG or PNG",
+    };
   }
 
-  return { path };
+  return {
+    ok: true,
+    token: reservation.token as string,
+    path,
+    reservationId: reservation.id as string,
+  };
 }
 
 function decodeBase64Image(value: string): Uint8Array {
@@ -397,11 +1649,20 @@ function decodeBase64Image(value: string): Uint8Array {
   return bytes;
 }
 
-function normalizeContentType(value: string | null | undefined): string {
-  const normalized = (value ?? "").toLowerCase();
-  if (normalized === "image/png" || normalized === "image/webp") {
+/** Defaults to JPEG; null for image types the sanitiser cannot decode. */
+function normalizeContentType(
+  value: string | null | undefined,
+): string | null {
+  const normalized = (value ?? "").trim().toLowerCase();
+  if (normalized === "image/png") {
     return normalized;
   }
+  if (
+    normalized.startsWith("image/") && normalized !== "image/jpeg" &&
+    normalized !== "image/jpg"
+  ) {
+    return null;
+  }
   return "image/jpeg";
 }
 
@@ -409,8 +1670,6 @@ function extensionFromContentType(contentType: string): string {
   switch (contentType) {
     case "image/png":
       return "png";
-    case "image/webp":
-      return "webp";
     default:
       return "jpg";
   }
@@ -472,6 +1731,7 @@ function isUnauthorizedError(message: string): boolean {
 
 function isClientError(message: string): boolean {
   return message.includes("recipe") ||
+    message.includes("bundle") ||
     message.includes("imageUpload") ||
     message.includes("User profile not found");
 }
@@ -480,8 +1740,10 @@ function corsHeaders(): HeadersInit {
   return {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type",
+      "authorization, x-client-info, apikey, content-type, idempotency-key",
     "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Expose-Headers":
+      "Idempotent-Replayed, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
   };
 }
 
@@ -502,10 +1764,31 @@ function jsonSuccess<T>(data: T, status = 200): Response {
   });
 }
 
+/** 400 `INVALID_REQUEST`; `data.violations[].code` carries the specific rule. */
+function jsonContentViolations(violations: ShareContentViolation[]): Response {
+  const body: RestResponse<{ violations: ShareContentViolation[] }> = {
+    success: false,
+    error: violations.length > 1
+      ? `${violations[0].message} (and ${violations.length - 1} more)`
+      : violations[0].message,
+    error_code: "INVALID_REQUEST",
+    data: { violations },
+  };
+
+  return new Response(JSON.stringify(body), {
+    status: 400,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
 function jsonError(
   message: string,
   status = 500,
   error_code: string | null = null,
+  extraHeaders: HeadersInit = {},
 ): Response {
   const body: RestResponse<null> = {
     success: false,
@@ -518,6 +1801,7 @@ function jsonError(
     status,
     headers: {
       ...corsHeaders(),
+      ...extraHeaders,
       "Content-Type": "application/json",
     },
   });
@@ -29,6 +29,37 @@ export interface ImportFromUrlProcessingResponse {
     is_recipe_content: boolean;
 }
 
+// Returned by import-recipe instead of proxying when the canonical URL is already a published browsable recipe
+export interface ImportDuplicateFoundResponse {
+    status: "DUPLICATE_FOUND";
+    extract_id: string;
+    imported_content_id: string;
+    browsable_recipe_id: string;
+    source_url: string;
+    meal_name: string | null;
+    image_url: string | null;
+}
+
+export interface ImportErrorDisplay {
+    title: string;
+    message: string;
+}
+
+// Returned by import-status (JSON body, or each SSE `status` event)
+export interface ImportStatusResponse {
+    extract_id: string;
+    imported_content_id: string;
+    status: "PROCESSING" | "COMPLETED" | "FAILED";
+    is_terminal: boolean;
+    is_recipe_content: boolean | null;
+    error_code: string | null;
+    error_display: ImportErrorDisplay | null;
+    content: MealContent | null;
+    source_url: string | null;
+    retry_count: number;
+    updated_at: string | null;
+}
+
 export interface RestResponse<T> {
     success: boolean;
     error: string | null;
@@ -1,9 +1,26 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import type { RestResponse } from "../dto/controller-response.ts";
+import {
+  applyHttpCache,
+  buildCacheControl,
+  type HttpCachePolicy,
+} from "../utils/http-cache.ts";
 
 const MAX_PREVIEW_RECIPES = 8;
 
+// Shorter than recipes: collections gain and lose recipes more often.
+const ACTIVE_CACHE_POLICY: HttpCachePolicy = {
+  cacheControl: buildCacheControl({
+    visibility: "public",
+    maxAgeSeconds: 2 * 60,
+    staleWhileRevalidateSeconds: 10 * 60,
+  }),
+};
+const NOT_FOUND_CACHE_POLICY: HttpCachePolicy = {
+  cacheControl: buildCacheControl({ visibility: "public", maxAgeSeconds: 60 }),
+};
+
 interface BrowsableCollectionResponse {
   status: "active" | "not_found";
   canonicalSlug: string | null;
@@ -75,13 +92,17 @@ Deno.serve(async (req) => {
     const collection = await fetchCollection(supabase, lookup);
 
     if (!collection) {
-      return jsonSuccess<BrowsableCollectionResponse>({
-        status: "not_found",
-        canonicalSlug: null,
-        collection: null,
-        recipes: [],
-        totalVisibleRecipeCount: 0,
-      });
+      return await applyHttpCache(
+        req,
+        jsonSuccess<BrowsableCollectionResponse>({
+          status: "not_found",
+          canonicalSlug: null,
+          collection: null,
+          recipes: [],
+          totalVisibleRecipeCount: 0,
+        }),
+        NOT_FOUND_CACHE_POLICY,
+      );
     }
 
     const orderedCollectionRecipes = await fetchCollectionRecipeOrder(
@@ -118,7 +139,7 @@ Deno.serve(async (req) => {
       }
     });
 
-    return jsonSuccess<BrowsableCollectionResponse>({
+    const response: BrowsableCollectionResponse = {
       status: "active",
       canonicalSlug: asNullableTrimmedString(collection.slug),
       collection: {
@@ -128,7 +149,12 @@ Deno.serve(async (req) => {
       },
       recipes: previewRecipes,
       totalVisibleRecipeCount: orderedVisibleRecipes.length,
-    });
+    };
+    return await applyHttpCache(
+      req,
+      jsonSuccess(response),
+      ACTIVE_CACHE_POLICY,
+    );
   } catch (error) {
     console.error("[GET BROWSABLE COLLECTION] Error:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -320,8 +346,9 @@ function corsHeaders(): HeadersInit {
   return {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type",
+      "authorization, x-client-info, apikey, content-type, if-none-match",
     "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Expose-Headers": "ETag",
   };
 }
 
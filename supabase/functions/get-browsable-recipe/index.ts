@@ -1,6 +1,28 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import type { RestResponse } from "../dto/controller-response.ts";
+import {
+  applyHttpCache,
+  buildCacheControl,
+  type HttpCachePolicy,
+} from "../utils/http-cache.ts";
+import { buildRecipeJsonLd } from "../utils/recipe-json-ld.ts";
+
+type ResponseFormat = "json" | "jsonld";
+
+// Published recipes change rarely; unpublishing shows up within max-age.
+const ACTIVE_CACHE_POLICY: HttpCachePolicy = {
+  cacheControl: buildCacheControl({
+    visibility: "public",
+    maxAgeSeconds: 5 * 60,
+    staleWhileRevalidateSeconds: 60 * 60,
+  }),
+  vary: ["Accept"],
+};
+const NOT_FOUND_CACHE_POLICY: HttpCachePolicy = {
+  cacheControl: buildCacheControl({ visibility: "public", maxAgeSeconds: 60 }),
+  vary: ["Accept"],
+};
 
 interface BrowsableRecipeResponse {
   status: "active" | "not_found";
@@ -54,6 +76,7 @@ Deno.serve(async (req) => {
       return jsonError("recipeId must be a valid UUID", 400, "INVALID_RECIPE_ID");
     }
 
+    const format = getResponseFormat(req);
     const supabase = createSupabaseAdminClient();
     const { data, error } = await supabase
       .from("browsable_recipes")
@@ -84,11 +107,17 @@ Deno.serve(async (req) => {
     }
 
     if (!data) {
-      return jsonSuccess<BrowsableRecipeResponse>({
-        status: "not_found",
-        recipe: null,
-        imageUrl: null,
-      });
+      return await applyHttpCache(
+        req,
+        format === "jsonld"
+          ? jsonError("Recipe not found", 404, "RECIPE_NOT_FOUND")
+          : jsonSuccess<BrowsableRecipeResponse>({
+            status: "not_found",
+            recipe: null,
+            imageUrl: null,
+          }),
+        NOT_FOUND_CACHE_POLICY,
+      );
     }
 
     const row = data as unknown as BrowsableRecipeRow;
@@ -112,11 +141,41 @@ Deno.serve(async (req) => {
       }
     });
 
-    return jsonSuccess<BrowsableRecipeResponse>({
-      status: "active",
-      recipe: normalizeBrowsableRecipePayload(row, content, author, imageUrl),
+    const recipe = normalizeBrowsableRecipePayload(
+      row,
+      content,
+      author,
       imageUrl,
-    });
+    );
+    if (format === "jsonld") {
+      const jsonLd = buildRecipeJsonLd(recipe, {
+        images: [imageUrl],
+        author: author
+          ? {
+            name: author.name,
+            handle: author.handle,
+            profileUrl: author.profile_url,
+          }
+          : null,
+        datePublished: row.posted_date,
+        isBasedOn: asNullableTrimmedString(row.original_post_url),
+      });
+      return await applyHttpCache(
+        req,
+        jsonLdSuccess(jsonLd),
+        ACTIVE_CACHE_POLICY,
+      );
+    }
+
+    return await applyHttpCache(
+      req,
+      jsonSuccess<BrowsableRecipeResponse>({
+        status: "active",
+        recipe,
+        imageUrl,
+      }),
+      ACTIVE_CACHE_POLICY,
+    );
   } catch (error) {
     console.error("[GET BROWSABLE RECIPE] Error:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -151,6 +210,18 @@ function getRecipeIdFromRequest(req: Request): string {
   return pathSegments[pathSegments.length - 1] ?? "";
 }
 
+/** `?format=json|jsonld` wins; otherwise JSON-LD only when Accept asks for it. */
+function getResponseFormat(req: Request): ResponseFormat {
+  const format = new URL(req.url).searchParams.get("format")?.trim()
+    .toLowerCase();
+  if (format === "json" || format === "jsonld") {
+    return format;
+  }
+
+  const accept = (req.headers.get("accept") ?? "").toLowerCase();
+  return accept.includes("application/ld+json") ? "jsonld" : "json";
+}
+
 function isUuid(value: string): boolean {
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
     .test(value);
@@ -438,8 +509,9 @@ function corsHeaders(): HeadersInit {
   return {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type",
+      "authorization, x-client-info, apikey, content-type, if-none-match",
     "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Expose-Headers": "ETag",
   };
 }
 
@@ -460,6 +532,16 @@ function jsonSuccess<T>(data: T, status = 200): Response {
   });
 }
 
+function jsonLdSuccess(jsonLd: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(jsonLd), {
+    status: 200,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/ld+json; charset=utf-8",
+    },
+  });
+}
+
 function jsonError(
   message: string,
   status = 500,
@@ -0,0 +1,385 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getAuthenticatedUserOrThrow } from "../utils/auth.ts";
+import {
+  SCAN_UPLOAD_BUCKET,
+  SCAN_UPLOAD_POINTER_PREFIX,
+} from "../utils/scan-upload-validation.ts";
+import type { RestResponse } from "../dto/controller-response.ts";
+
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ScanSourcePage {
+  index: number;
+  page: number;
+  pointer: string;
+  mime_type: string | null;
+  url: string | null;
+  metadata: Record<string, unknown>;
+}
+
+interface ScanSourceCover {
+  pointer: string;
+  url: string;
+}
+
+interface GetScanSourceResponse {
+  imported_content_id: string;
+  kind: "pdf" | "images";
+  expires_at: string;
+  pages: ScanSourcePage[];
+  cover: ScanSourceCover | null;
+}
+
+interface SourceEntry {
+  pointer: string;
+  page: number | null;
+  mimeType: string | null;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Short-lived signed URLs for the private scan pages kept in
+ * `imported_content.metadata.scan_source`, plus the backend-rendered
+ * `_cover.jpg` which clients cannot sign themselves.
+ *
+ *   GET /get-scan-source?imported_content_id=<uuid>
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders() });
+  }
+
+  if (req.method !== "GET") {
+    return jsonError("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+  }
+
+  try {
+    const url = new URL(req.url);
+    const importedContentId =
+      url.searchParams.get("imported_content_id")?.trim() ||
+      url.searchParams.get("extract_id")?.trim() || "";
+    if (!importedContentId) {
+      return jsonError(
+        "imported_content_id is required",
+        400,
+        "MISSING_IMPORTED_CONTENT_ID",
+      );
+    }
+    if (!UUID_PATTERN.test(importedContentId)) {
+      return jsonError(
+        "imported_content_id must be a UUID",
+        400,
+        "INVALID_IMPORTED_CONTENT_ID",
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const authUser = await getAuthenticatedUserOrThrow(supabase, req);
+    const userProfileId = await getUserProfileIdOrThrow(supabase, authUser.id);
+
+    const { data, error } = await supabase
+      .from("imported_content")
+      .select("id, metadata")
+      .eq("id", importedContentId)
+      .eq("user_id", userProfileId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[GET SCAN SOURCE] Query failed:", error);
+      return jsonError(
+        "Failed to fetch imported content",
+        500,
+        "FETCH_IMPORTED_CONTENT_FAILED",
+      );
+    }
+
+    if (!data) {
+      return jsonError("Import not found", 404, "IMPORT_NOT_FOUND");
+    }
+
+    const metadata = (data.metadata ?? {}) as Record<string, unknown>;
+    const scanSource = metadata.scan_source;
+    const entries = normalizeScanSourceEntries(scanSource);
+    if (entries.length === 0) {
+      return jsonError(
+        "This import has no scan source",
+        404,
+        "SCAN_SOURCE_NOT_FOUND",
+      );
+    }
+
+    // Pointers come from backend-written metadata; still only sign the caller's own folder.
+    const ownEntries = entries.filter((entry) =>
+      isOwnScanPointer(entry.pointer, authUser.id)
+    );
+    if (ownEntries.length !== entries.length) {
+      console.warn("[GET SCAN SOURCE] Dropped pointers outside caller folder", {
+        importedContentId,
+        dropped: entries.length - ownEntries.length,
+      });
+    }
+
+    const kind = ownEntries.some((entry) =>
+        entry.mimeType === "application/pdf" ||
+        entry.pointer.toLowerCase().endsWith(".pdf")
+      )
+      ? "pdf"
+      : "images";
+    const coverPointer = resolveCoverPointer(scanSource, ownEntries, kind);
+    const pointersToSign = [
+      ...ownEntries.map((entry) => entry.pointer),
+      ...(coverPointer && isOwnScanPointer(coverPointer, authUser.id)
+        ? [coverPointer]
+        : []),
+    ];
+    const signedUrls = await createSignedUrls(supabase, pointersToSign);
+    const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000)
+      .toISOString();
+
+    const pages: ScanSourcePage[] = ownEntries.map((entry, index) => ({
+      index,
+      page: entry.page ?? index + 1,
+      pointer: entry.pointer,
+      mime_type: entry.mimeType,
+      url: signedUrls.get(entry.pointer) ?? null,
+      metadata: entry.metadata,
+    }));
+
+    const coverUrl = coverPointer ? signedUrls.get(coverPointer) : null;
+
+    return jsonSuccess<GetScanSourceResponse>({
+      imported_content_id: data.id as string,
+      kind,
+      expires_at: expiresAt,
+      pages,
+      cover: coverPointer && coverUrl
+        ? { pointer: coverPointer, url: coverUrl }
+        : null,
+    });
+  } catch (error) {
+    console.error("[GET SCAN SOURCE] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const status = isUnauthorizedError(message)
+      ? 401
+      : isClientError(message)
+      ? 400
+      : 500;
+    const errorCode = isUnauthorizedError(message)
+      ? "UNAUTHORIZED"
+      : isClientError(message)
+      ? "INVALID_REQUEST"
+      : "INTERNAL_ERROR";
+    return jsonError(message, status, errorCode);
+  }
+});
+
+function createSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+async function getUserProfileIdOrThrow(
+  supabase: SupabaseClient,
+  authUserId: string,
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("user_profile")
+    .select("id")
+    .eq("auth_id", authUserId)
+    .single();
+
+  if (error || !data?.id) {
+    throw new Error("User profile not found");
+  }
+
+  return data.id as string;
+}
+
+/**
+ * `scan_source` is either a list of pointers / page objects, or an object
+ * with a `pages` (or `pointers`) list. Order is preserved as stored.
+ */
+function normalizeScanSourceEntries(input: unknown): SourceEntry[] {
+  const list = Array.isArray(input)
+    ? input
+    : input && typeof input === "object"
+    ? asArray((input as Record<string, unknown>).pages) ??
+      asArray((input as Record<string, unknown>).pointers) ?? []
+    : [];
+
+  return list
+    .map(normalizeScanSourceEntry)
+    .filter((entry): entry is SourceEntry => entry !== null);
+}
+
+function normalizeScanSourceEntry(input: unknown): SourceEntry | null {
+  if (typeof input === "string") {
+    return input.startsWith(SCAN_UPLOAD_POINTER_PREFIX)
+      ? { pointer: input, page: null, mimeType: null, metadata: {} }
+      : null;
+  }
+
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const { pointer, uri, path, page, mime_type, mimeType, ...metadata } =
+    input as Record<string, unknown>;
+  const resolvedPointer = [pointer, uri, path].find((value) =>
+    typeof value === "string" && value.startsWith(SCAN_UPLOAD_POINTER_PREFIX)
+  ) as string | undefined;
+  if (!resolvedPointer) {
+    return null;
+  }
+
+  return {
+    pointer: resolvedPointer,
+    page: typeof page === "number" && Number.isFinite(page) ? page : null,
+    mimeType: asTrimmedString(mime_type) ?? asTrimmedString(mimeType),
+    metadata,
+  };
+}
+
+/** Explicit `cover` pointer if stored; otherwise `{uuid}.pdf` -> `{uuid}_cover.jpg`. */
+function resolveCoverPointer(
+  scanSource: unknown,
+  entries: SourceEntry[],
+  kind: "pdf" | "images",
+): string | null {
+  if (scanSource && typeof scanSource === "object" && !Array.isArray(scanSource)) {
+    const source = scanSource as Record<string, unknown>;
+    const explicit = [source.cover, source.cover_pointer].find((value) =>
+      typeof value === "string" && value.startsWith(SCAN_UPLOAD_POINTER_PREFIX)
+    ) as string | undefined;
+    if (explicit) {
+      return explicit;
+    }
+  }
+
+  if (kind !== "pdf") {
+    return null;
+  }
+
+  const pdf = entries.find((entry) =>
+    entry.pointer.toLowerCase().endsWith(".pdf")
+  );
+  return pdf ? pdf.pointer.replace(/\.pdf$/i, "_cover.jpg") : null;
+}
+
+function isOwnScanPointer(pointer: string, authUserId: string): boolean {
+  const segments = pointer.slice(SCAN_UPLOAD_POINTER_PREFIX.length).split("/");
+  return segments.length >= 2 && segments[0] === authUserId &&
+    !segments.some((segment) => !segment || segment === "..");
+}
+
+async function createSignedUrls(
+  supabase: SupabaseClient,
+  pointers: string[],
+): Promise<Map<string, string>> {
+  const signed = new Map<string, string>();
+  if (pointers.length === 0) {
+    return signed;
+  }
+
+  const paths = pointers.map((pointer) =>
+    pointer.slice(SCAN_UPLOAD_POINTER_PREFIX.length)
+  );
+  const { data, error } = await supabase.storage
+    .from(SCAN_UPLOAD_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error("[GET SCAN SOURCE] Failed to sign URLs:", error);
+    return signed;
+  }
+
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl && !item.error) {
+      signed.set(`${SCAN_UPLOAD_POINTER_PREFIX}${item.path}`, item.signedUrl);
+    }
+  }
+
+  return signed;
+}
+
+function asArray(input: unknown): unknown[] | null {
+  return Array.isArray(input) ? input : null;
+}
+
+function asTrimmedString(input: unknown): string | null {
+  if (typeof input !== "string") {
+    return null;
+  }
+
+  const trimmed = input.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function isUnauthorizedError(message: string): boolean {
+  return message.includes("Authorization") || message.includes("Invalid token");
+}
+
+function isClientError(message: string): boolean {
+  return message.includes("User profile not found");
+}
+
+function corsHeaders(): HeadersInit {
+  return {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+  };
+}
+
+function jsonSuccess<T>(data: T, status = 200): Response {
+  const body: RestResponse<T> = {
+    success: true,
+    error: null,
+    error_code: null,
+    data,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function jsonError(
+  message: string,
+  status = 500,
+  error_code: string | null = null,
+): Response {
+  const body: RestResponse<null> = {
+    success: false,
+    error: message,
+    error_code,
+    data: null,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
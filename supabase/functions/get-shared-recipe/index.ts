@@ -1,17 +1,77 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import type { RestResponse } from "../dto/controller-response.ts";
+import {
+  applyHttpCache,
+  buildCacheControl,
+  NO_STORE_CACHE_CONTROL,
+  PRIVATE_NO_STORE_CACHE_CONTROL,
+} from "../utils/http-cache.ts";
+import {
+  buildRecipeJsonLd,
+  buildRecipeListJsonLd,
+} from "../utils/recipe-json-ld.ts";
+import { verifySharePin } from "../utils/share-pin.ts";
+import {
+  buildSharedRecipeAppUrl,
+  renderSharedRecipePage,
+  SHARED_RECIPE_PAGE_HEADERS,
+  SHARED_RECIPE_PAGE_HTTP_STATUS,
+} from "../utils/shared-recipe-page.ts";
 
 const SHARED_IMAGE_BUCKET = "shared-recipe-images";
 const SIGNED_IMAGE_URL_TTL_SECONDS = 60 * 60;
+// Half the signed URL lifetime: a cached copy stays usable for at most this
+// long after its ETag stops matching.
+const SIGNED_URL_ETAG_WINDOW_SECONDS = SIGNED_IMAGE_URL_TTL_SECONDS / 2;
+const ACTIVE_SHARE_MAX_AGE_SECONDS = 5 * 60;
+const INACTIVE_SHARE_MAX_AGE_SECONDS = 60;
 const REQUESTS_PER_MINUTE_LIMIT = 30;
 const VIEWER_ID_HEADER = "x-viewer-id";
+const SHARE_PIN_HEADER = "x-share-pin";
+// PIN attempts before a lockout, per client IP and per share across all
+// clients. Lockouts start at a minute and double each time, up to a day.
+const PIN_ATTEMPTS_PER_CLIENT_LIMIT = 5;
+const PIN_ATTEMPTS_PER_SHARE_LIMIT = 20;
+const DEFAULT_SHARE_BASE_URL = "https://kerisik.app/shared/recipe";
+// Link-preview fetchers; their requests are not counted as views.
+const LINK_PREVIEW_USER_AGENT_PATTERN =
+  /bot\b|crawler|spider|facebookexternalhit|whatsapp|telegrambot|slackbot|discordbot|embedly|skypeuripreview/i;
+
+type ShareType = "recipe" | "bundle";
+type ResponseFormat = "json" | "html" | "jsonld";
 
 interface SharedRecipeResponse {
-  status: "active" | "expired" | "revoked" | "not_found";
+  status: "active" | "locked" | "expired" | "revoked" | "not_found";
+  /** null for `not_found`. */
+  shareType: ShareType | null;
   recipe: Record<string, unknown> | null;
+  bundle: SharedBundleResponse | null;
   expiresAt: string | null;
+  /** The recipe image, or the bundle cover. */
   imageUrl: string | null;
+  /** Signed URLs of the stored image and its derivatives; null without a stored image. */
+  imageVariants: SharedImageVariantUrls | null;
+}
+
+/** The stored bundle snapshot (`title`, `description`, `source`, ...) with signed images. */
+interface SharedBundleResponse {
+  [key: string]: unknown;
+  coverImageUrl: string | null;
+  /** Each recipe carries its own `imageUrl` and `imageVariants`. */
+  recipes: Array<Record<string, unknown>>;
+}
+
+interface ImageVariantPaths {
+  original: string | null;
+  thumbnail?: string | null;
+  og?: string | null;
+}
+
+interface SharedImageVariantUrls {
+  original: string | null;
+  thumbnail: string | null;
+  og: string | null;
 }
 
 interface RateLimitResult {
@@ -23,11 +83,23 @@ interface RateLimitResult {
   retry_after_seconds: number;
 }
 
+interface PinAttemptResult {
+  allowed: boolean;
+  remaining: number;
+  retry_after_seconds: number;
+}
+
 interface SharedRecipeRow {
   id: string;
+  share_type: ShareType;
   recipe_payload: Record<string, unknown>;
   image_path: string | null;
-  expires_at: string;
+  image_variant_paths: { thumbnail?: string; og?: string } | null;
+  /** Bundles only, index-aligned with `recipe_payload.recipes`. */
+  item_image_paths: Array<ImageVariantPaths | null> | null;
+  pin_hash: string | null;
+  /** null for links that never expire. */
+  expires_at: string | null;
   revoked_at: string | null;
 }
 
@@ -45,6 +117,7 @@ Deno.serve(async (req) => {
     if (!token) {
       return jsonError("token is required", 400, "MISSING_TOKEN");
     }
+    const format = getResponseFormat(req);
 
     const supabase = createSupabaseAdminClient();
     const clientIp = getClientIpFromRequest(req);
@@ -66,7 +139,9 @@ Deno.serve(async (req) => {
 
     const { data, error } = await supabase
       .from("shared_recipe_links")
-      .select("id, recipe_payload, image_path, expires_at, revoked_at")
+      .select(
+        "id, share_type, recipe_payload, image_path, image_variant_paths, item_image_paths, pin_hash, expires_at, revoked_at",
+      )
       .eq("token", token)
       .maybeSingle();
 
@@ -81,66 +156,122 @@ Deno.serve(async (req) => {
     }
 
     if (!data) {
-      return jsonSuccess<SharedRecipeResponse>({
+      return await respondWithShare(req, format, token, {
         status: "not_found",
+        shareType: null,
         recipe: null,
+        bundle: null,
         expiresAt: null,
         imageUrl: null,
-      }, 200, rateLimitHeaders.headers);
+        imageVariants: null,
+      }, rateLimitHeaders.headers);
     }
 
     const row = data as SharedRecipeRow;
     const now = Date.now();
-    const expiresAtMs = Date.parse(row.expires_at);
+    const expiresAtMs = row.expires_at === null
+      ? null
+      : Date.parse(row.expires_at);
 
     if (row.revoked_at) {
-      return jsonSuccess<SharedRecipeResponse>({
+      return await respondWithShare(req, format, token, {
         status: "revoked",
+        shareType: row.share_type,
         recipe: null,
+        bundle: null,
         expiresAt: row.expires_at,
         imageUrl: null,
-      }, 200, rateLimitHeaders.headers);
+        imageVariants: null,
+      }, rateLimitHeaders.headers);
     }
 
-    if (Number.isNaN(expiresAtMs) || expiresAtMs <= now) {
-      return jsonSuccess<SharedRecipeResponse>({
+    if (
+      expiresAtMs !== null && (Number.isNaN(expiresAtMs) || expiresAtMs <= now)
+    ) {
+      return await respondWithShare(req, format, token, {
         status: "expired",
+        shareType: row.share_type,
         recipe: null,
+        bundle: null,
         expiresAt: row.expires_at,
         imageUrl: null,
-      }, 200, rateLimitHeaders.headers);
+        imageVariants: null,
+      }, rateLimitHeaders.headers);
     }
 
-    const imageUrl = row.image_path
-      ? await createSignedImageUrl(supabase, row.image_path)
-      : extractImageUrlFromPayload(row.recipe_payload);
-    const viewerKey = getViewerKeyFromRequest(req, clientIp);
-    const viewerKeyHash = await sha256Hex(viewerKey);
-
-    // Fire and forget metric update. The client response should not depend on this write.
-    void supabase.rpc("increment_shared_recipe_link_views", {
-      p_share_id: row.id,
-      p_viewer_key_hash: viewerKeyHash,
-    }).then(({ error: rpcError }) => {
-      if (rpcError) {
-        console.error(
-          "[GET SHARED RECIPE] Failed to increment view count:",
-          rpcError,
-        );
+    if (row.pin_hash) {
+      const pinResponse = await checkSharePin(
+        supabase,
+        req,
+        token,
+        clientIpHash,
+        row,
+        format,
+        rateLimitHeaders.headers,
+      );
+      if (pinResponse) {
+        return pinResponse;
       }
-    });
+    }
+
+    const isBundle = row.share_type === "bundle";
+    const itemImagePaths = isBundle ? row.item_image_paths ?? [] : [];
+    const [imageVariants, ...itemImageVariants] =
+      await createSignedImageVariantUrls(supabase, [
+        row.image_path
+          ? { original: row.image_path, ...row.image_variant_paths }
+          : null,
+        ...itemImagePaths,
+      ]);
+    const imageUrl = imageVariants
+      ? imageVariants.original
+      : extractImageUrlFromPayload(
+        row.recipe_payload,
+        isBundle ? "coverImageUrl" : "imageUrl",
+      );
+    if (!isLinkPreviewRequest(req)) {
+      const viewerKey = getViewerKeyFromRequest(req, clientIp);
+      const viewerKeyHash = await sha256Hex(viewerKey);
+
+      // Fire and forget metric update. The client response should not depend on this write.
+      void supabase.rpc("increment_shared_recipe_link_views", {
+        p_share_id: row.id,
+        p_viewer_key_hash: viewerKeyHash,
+      }).then(({ error: rpcError }) => {
+        if (rpcError) {
+          console.error(
+            "[GET SHARED RECIPE] Failed to increment view count:",
+            rpcError,
+          );
+        }
+      });
+    }
 
-    const recipe = {
+    const recipe = isBundle ? null : {
       ...normalizeSharedRecipePayload(row.recipe_payload),
       imageUrl,
     };
+    const bundle = isBundle
+      ? buildBundleResponse(row.recipe_payload, imageUrl, itemImageVariants)
+      : null;
 
-    return jsonSuccess<SharedRecipeResponse>({
+    const response: SharedRecipeResponse = {
       status: "active",
+      shareType: row.share_type,
       recipe,
+      bundle,
       expiresAt: row.expires_at,
       imageUrl,
-    }, 200, rateLimitHeaders.headers);
+      imageVariants,
+    };
+    return await respondWithShare(
+      req,
+      format,
+      token,
+      response,
+      rateLimitHeaders.headers,
+      row.pin_hash !== null,
+    );
   } catch (error) {
     console.error("[GET SHARED RECIPE] Error:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -202,6 +333,31 @@ function getViewerKeyFromRequest(req: Request, clientIp: string): string {
   return `ip:${clientIp}`;
 }
 
+/**
+ * `?format=html|json|jsonld` wins; otherwise the Accept header picks JSON-LD
+ * or HTML (browsers) when it asks for them, and JSON for everything else,
+ * including the app and preview crawlers that accept anything.
+ */
+function getResponseFormat(req: Request): ResponseFormat {
+  const format = new URL(req.url).searchParams.get("format")?.trim()
+    .toLowerCase();
+  if (format === "html" || format === "json" || format === "jsonld") {
+    return format;
+  }
+
+  const accept = (req.headers.get("accept") ?? "").toLowerCase();
+  if (accept.includes("application/ld+json")) {
+    return "jsonld";
+  }
+  return accept.includes("text/html") ? "html" : "json";
+}
+
+function isLinkPreviewRequest(req: Request): boolean {
+  return LINK_PREVIEW_USER_AGENT_PATTERN.test(
+    req.headers.get("user-agent") ?? "",
+  );
+}
+
 async function sha256Hex(value: string): Promise<string> {
   const data = new TextEncoder().encode(value);
   const digest = await crypto.subtle.digest("SHA-256", data);
@@ -257,26 +413,358 @@ async function getRateLimitHeaders(
   };
 }
 
-async function createSignedImageUrl(
+/**
+ * Null when the viewer supplied the correct PIN. Otherwise the response to
+ * send: `locked` without a PIN, 403 for a wrong one, 429 during a lockout.
+ * Each attempt is counted before the PIN is checked, so parallel guesses
+ * cannot all slip in under the limit; a correct PIN gives the attempt back.
+ */
+async function checkSharePin(
+  supabase: SupabaseClient,
+  req: Request,
+  token: string,
+  clientIpHash: string,
+  row: SharedRecipeRow,
+  format: ResponseFormat,
+  headers: Record<string, string>,
+): Promise<Response | null> {
+  const pin = req.headers.get(SHARE_PIN_HEADER)?.trim();
+  if (!pin) {
+    return await respondWithShare(req, format, token, {
+      status: "locked",
+      shareType: row.share_type,
+      recipe: null,
+      bundle: null,
+      expiresAt: row.expires_at,
+      imageUrl: null,
+      imageVariants: null,
+    }, headers);
+  }
+
+  const attempt = await beginPinAttempt(supabase, row.id, clientIpHash);
+  // Fail closed: without the counter a PIN could be brute-forced.
+  if (!attempt) {
+    return jsonError(
+      "Failed to verify PIN",
+      500,
+      "VERIFY_SHARE_PIN_FAILED",
+      headers,
+    );
+  }
+  if (!attempt.allowed) {
+    return jsonError(
+      "Too many incorrect PIN attempts",
+      429,
+      "PIN_ATTEMPTS_EXCEEDED",
+      { ...headers, "Retry-After": String(attempt.retry_after_seconds) },
+    );
+  }
+
+  if (await verifySharePin(pin, row.pin_hash ?? "")) {
+    await clearPinAttempt(supabase, row.id, clientIpHash);
+    return null;
+  }
+
+  return jsonError("Incorrect PIN", 403, "INVALID_SHARE_PIN", {
+    ...headers,
+    "X-PIN-Attempts-Remaining": String(attempt.remaining),
+  });
+}
+
+/** Counts one attempt for the client and the share; null if the RPC failed. */
+async function beginPinAttempt(
+  supabase: SupabaseClient,
+  linkId: string,
+  clientIpHash: string,
+): Promise<PinAttemptResult | null> {
+  const { data, error } = await supabase.rpc(
+    "begin_shared_recipe_link_pin_attempt",
+    {
+      p_link_id: linkId,
+      p_client_ip_hash: clientIpHash,
+      p_client_limit: PIN_ATTEMPTS_PER_CLIENT_LIMIT,
+      p_share_limit: PIN_ATTEMPTS_PER_SHARE_LIMIT,
+    },
+  );
+
+  if (error) {
+    console.error("[GET SHARED RECIPE] Failed to record PIN attempt:", error);
+    return null;
+  }
+
+  return Array.isArray(data) ? (data[0] as PinAttemptResult | null) : null;
+}
+
+async function clearPinAttempt(
+  supabase: SupabaseClient,
+  linkId: string,
+  clientIpHash: string,
+): Promise<void> {
+  const { error } = await supabase.rpc(
+    "clear_shared_recipe_link_pin_attempt",
+    {
+      p_link_id: linkId,
+      p_client_ip_hash: clientIpHash,
+    },
+  );
+
+  if (error) {
+    console.error("[GET SHARED RECIPE] Failed to clear PIN attempts:", error);
+  }
+}
+
+/**
+ * Signs every variant of every image in one Storage call; the result is
+ * index-aligned with `images`. Shares created before image sanitisation have
+ * no thumbnail or og variant.
+ */
+async function createSignedImageVariantUrls(
   supabase: SupabaseClient,
-  imagePath: string,
-): Promise<string | null> {
+  images: Array<ImageVariantPaths | null>,
+): Promise<Array<SharedImageVariantUrls | null>> {
+  const paths = images.flatMap((image) =>
+    image ? [image.original, image.thumbnail, image.og] : []
+  ).filter((path): path is string => Boolean(path));
+
+  if (paths.length === 0) {
+    return images.map(() => null);
+  }
+
   const { data, error } = await supabase.storage
     .from(SHARED_IMAGE_BUCKET)
-    .createSignedUrl(imagePath, SIGNED_IMAGE_URL_TTL_SECONDS);
+    .createSignedUrls(paths, SIGNED_IMAGE_URL_TTL_SECONDS);
 
   if (error) {
-    console.error("[GET SHARED RECIPE] Failed to sign image URL:", error);
+    console.error("[GET SHARED RECIPE] Failed to sign image URLs:", error);
+  }
+
+  const signedUrlByPath = new Map(
+    (data ?? []).map((item) => [item.path, item.signedUrl]),
+  );
+  const signedUrlFor = (path: string | null | undefined) =>
+    path ? signedUrlByPath.get(path) ?? null : null;
+
+  return images.map((image) =>
+    image
+      ? {
+        original: signedUrlFor(image.original),
+        thumbnail: signedUrlFor(image.thumbnail),
+        og: signedUrlFor(image.og),
+      }
+      : null
+  );
+}
+
+async function respondWithShare(
+  req: Request,
+  format: ResponseFormat,
+  token: string,
+  data: SharedRecipeResponse,
+  headers: Record<string, string>,
+  pinProtected = false,
+): Promise<Response> {
+  return await applyHttpCache(
+    req,
+    buildShareResponse(format, token, data, headers),
+    {
+      cacheControl: getShareCacheControl(data, pinProtected),
+      vary: ["Accept"],
+      etagSource: stripSignedUrlTokens,
+    },
+  );
+}
+
+/**
+ * Active shares are cacheable until they expire, but not past the point where
+ * a revalidated copy's signed image URLs would have expired. PIN-protected
+ * and revoked content is never stored. Expired and missing links are cached
+ * briefly, since an owner can still extend or re-share.
+ */
+function getShareCacheControl(
+  data: SharedRecipeResponse,
+  pinProtected: boolean,
+): string {
+  if (pinProtected || data.status === "locked") {
+    return PRIVATE_NO_STORE_CACHE_CONTROL;
+  }
+  if (data.status === "revoked") {
+    return NO_STORE_CACHE_CONTROL;
+  }
+  if (data.status !== "active") {
+    return buildCacheControl({
+      visibility: "public",
+      maxAgeSeconds: INACTIVE_SHARE_MAX_AGE_SECONDS,
+    });
+  }
+
+  const secondsUntilExpiry = data.expiresAt === null
+    ? Infinity
+    : Math.floor((Date.parse(data.expiresAt) - Date.now()) / 1000);
+  const maxAgeSeconds = Math.min(
+    ACTIVE_SHARE_MAX_AGE_SECONDS,
+    secondsUntilExpiry,
+  );
+  if (!(maxAgeSeconds > 0)) {
+    return NO_STORE_CACHE_CONTROL;
+  }
+
+  return buildCacheControl({
+    visibility: "public",
+    maxAgeSeconds,
+    staleWhileRevalidateSeconds: Math.min(
+      SIGNED_URL_ETAG_WINDOW_SECONDS - maxAgeSeconds,
+      secondsUntilExpiry - maxAgeSeconds,
+    ),
+  });
+}
+
+/**
+ * Signed image URLs get a new token on every request. The ETag ignores the
+ * tokens but changes every `SIGNED_URL_ETAG_WINDOW_SECONDS`, so a copy
+ * revalidated with a 304 never outlives its URLs.
+ */
+function stripSignedUrlTokens(body: string): string {
+  const signedWindow = Math.floor(
+    Date.now() / 1000 / SIGNED_URL_ETAG_WINDOW_SECONDS,
+  );
+  return `${signedWindow}:${
+    body.replace(/(\/object\/sign\/[^"?\s]+)\?token=[^"&\s]+/g, "$1")
+  }`;
+}
+
+/**
+ * The JSON envelope (always 200, with `status` in the body), the bare JSON-LD
+ * document, or the share page. JSON-LD and the page use 404/410 for missing,
+ * expired and revoked links.
+ */
+function buildShareResponse(
+  format: ResponseFormat,
+  token: string,
+  data: SharedRecipeResponse,
+  headers: Record<string, string>,
+): Response {
+  if (format === "json") {
+    return jsonSuccess(data, 200, headers);
+  }
+
+  const shareUrl = buildShareUrl(token);
+  const jsonLd = data.status === "active"
+    ? buildShareJsonLd(data, shareUrl)
+    : null;
+
+  if (format === "jsonld") {
+    if (!jsonLd) {
+      return jsonError(
+        `Shared recipe is ${data.status.replace("_", " ")}`,
+        data.status === "locked"
+          ? 403
+          : SHARED_RECIPE_PAGE_HTTP_STATUS[data.status],
+        `SHARED_RECIPE_${data.status.toUpperCase()}`,
+        headers,
+      );
+    }
+
+    return jsonLdSuccess(jsonLd, headers);
+  }
+
+  const html = renderSharedRecipePage({
+    status: data.status,
+    shareUrl,
+    appUrl: buildSharedRecipeAppUrl(token),
+    recipe: data.recipe,
+    bundle: data.bundle,
+    imageUrl: data.imageUrl,
+    ogImageUrl: data.imageVariants?.og ?? null,
+    jsonLd,
+  });
+
+  return new Response(html, {
+    status: SHARED_RECIPE_PAGE_HTTP_STATUS[data.status],
+    headers: {
+      ...corsHeaders(),
+      ...headers,
+      ...SHARED_RECIPE_PAGE_HEADERS,
+    },
+  });
+}
+
+/** A `Recipe` for single shares, an `ItemList` of recipes for bundles. */
+function buildShareJsonLd(
+  data: SharedRecipeResponse,
+  shareUrl: string,
+): Record<string, unknown> | null {
+  if (data.bundle) {
+    return buildRecipeListJsonLd(
+      {
+        title: asTrimmedString(data.bundle.title),
+        description: asTrimmedString(data.bundle.description),
+      },
+      data.bundle.recipes.map((recipe) => {
+        const variants = recipe.imageVariants as SharedImageVariantUrls | null;
+        return {
+          recipe,
+          options: {
+            images: [recipe.imageUrl as string | null, variants?.og ?? null],
+          },
+        };
+      }),
+      { url: shareUrl, images: [data.imageUrl] },
+    );
+  }
+
+  if (!data.recipe) {
     return null;
   }
 
-  return data?.signedUrl ?? null;
+  const attribution = data.recipe.attribution as
+    | Record<string, unknown>
+    | null
+    | undefined;
+  return buildRecipeJsonLd(data.recipe, {
+    images: [data.imageUrl, data.imageVariants?.og ?? null],
+    url: shareUrl,
+    datePublished: asTrimmedString(attribution?.sharedAt),
+  });
+}
+
+function buildShareUrl(token: string): string {
+  const baseUrl =
+    (Deno.env.get("RECIPE_SHARE_BASE_URL") ?? DEFAULT_SHARE_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+  return `${baseUrl}/${token}`;
+}
+
+function buildBundleResponse(
+  payload: Record<string, unknown>,
+  coverImageUrl: string | null,
+  itemImageVariants: Array<SharedImageVariantUrls | null>,
+): SharedBundleResponse {
+  const recipes = Array.isArray(payload.recipes) ? payload.recipes : [];
+
+  return {
+    ...payload,
+    coverImageUrl,
+    recipes: recipes.map((item, index) => {
+      const recipe = item as Record<string, unknown>;
+      const imageVariants = itemImageVariants[index] ?? null;
+      return {
+        ...normalizeSharedRecipePayload(recipe),
+        imageUrl: imageVariants
+          ? imageVariants.original
+          : extractImageUrlFromPayload(recipe, "imageUrl"),
+        imageVariants,
+      };
+    }),
+  };
 }
 
 function extractImageUrlFromPayload(
   payload: Record<string, unknown>,
+  field: "imageUrl" | "coverImageUrl",
 ): string | null {
-  const imageUrl = payload.imageUrl;
+  const imageUrl = payload[field];
   return typeof imageUrl === "string" && imageUrl.trim().length > 0
     ? imageUrl.trim()
     : null;
@@ -356,10 +844,10 @@ function corsHeaders(): HeadersInit {
   return {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Headers":
-      `authorization, x-client-info, apikey, content-type, ${VIEWER_ID_HEADER}`,
+      `authorization, x-client-info, apikey, content-type, if-none-match, ${VIEWER_ID_HEADER}, ${SHARE_PIN_HEADER}`,
     "Access-Control-Allow-Methods": "GET, OPTIONS",
     "Access-Control-Expose-Headers":
-      "Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
+      "ETag, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-PIN-Attempts-Remaining",
   };
 }
 
@@ -385,6 +873,20 @@ function jsonSuccess<T>(
   });
 }
 
+function jsonLdSuccess(
+  jsonLd: Record<string, unknown>,
+  extraHeaders: HeadersInit = {},
+): Response {
+  return new Response(JSON.stringify(jsonLd), {
+    status: 200,
+    headers: {
+      ...corsHeaders(),
+      ...extraHeaders,
+      "Content-Type": "application/ld+json; charset=utf-8",
+    },
+  });
+}
+
 function jsonError(
   message: string,
   status = 500,
@@ -1,23 +1,47 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
 import { getAuthenticatedUserOrThrow } from "../utils/auth.ts";
+import { buildImportQuotaHeaders, QUOTA_UNAVAILABLE_ERROR_CODE, releaseImportQuota, reserveImportQuota } from "../utils/import-quota.ts";
+import { withIdempotency } from "../utils/idempotency.ts";
+import { buildBackendUnavailableBody, buildImportBackendHeaders, callImportBackend, getImportBackendUrl } from "../utils/import-backend.ts";
+import { validateScanUploadPointers } from "../utils/scan-upload-validation.ts";
 
-const prefix = "supabase://scan-uploads/";
 Deno.serve(async (req) => {
   try {
-    const { image_pointers, email, caption, notification_device_id } = await req.json();
-    if (!Array.isArray(image_pointers) || image_pointers.length < 1 || image_pointers.length > 5) return Response.json({ success: false, error: "Provide 1–5 images or one PDF" }, { status: 422 });
+    const payload = await req.json();
+    const { image_pointers, email, caption, notification_device_id } = payload;
     const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
     const user = await getAuthenticatedUserOrThrow(supabase, req);
-    for (const pointer of image_pointers) {
-      const path = typeof pointer === "string" && pointer.startsWith(prefix) ? pointer.slice(prefix.length) : "";
-      if (path.split("/")[0] !== user.id) return Response.json({ success: false, error: "Scan upload does not belong to this user" }, { status: 403 });
+    // Quota and idempotency are keyed on the profile, so a caller without one is rejected like in import-recipe
+    const { data: profile, error: profileError } = await supabase.from("user_profile").select("id").eq("auth_id", user.id).maybeSingle();
+    if (profileError || !profile?.id) {
+      console.error("[IMPORT IMAGE] User profile not found", { authUserId: user.id, error: profileError?.message || profileError });
+      return Response.json({ success: false, error: "User profile not found", data: null }, { status: 401 });
     }
-    const response = await fetch(`${Deno.env.get("MS_LLM_BASE_URL") ?? "http://host.docker.internal:8000"}/api/v2/import-from-image`, {
-      method: "POST", headers: { "Content-Type": "application/json", ...(Deno.env.get("MS_LLM_API_KEY") ? { "x-api-key": Deno.env.get("MS_LLM_API_KEY")! } : {}) },
-      body: JSON.stringify({ image_pointers, email, caption, notification_device_id: notification_device_id ?? null }),
-    });
-    return new Response(await response.text(), { status: response.status, headers: { "Content-Type": "application/json" } });
+    const userProfileId = profile.id as string;
+    // Existence, real type (magic bytes), size and PDF-vs-JPEG mix are checked before FastAPI sees the pointers
+    const validation = await validateScanUploadPointers(supabase, image_pointers, user.id, "[IMPORT IMAGE]");
+    if (!validation.ok) return Response.json({ success: false, error: validation.message, error_code: validation.errorCode, data: null }, { status: validation.status });
+    const runImport = async (): Promise<Response> => {
+      const quotaResult = await reserveImportQuota(supabase, userProfileId, 1, "[IMPORT IMAGE]");
+      if (!quotaResult.ok) return Response.json({ success: false, error: "Import quota is temporarily unavailable", error_code: QUOTA_UNAVAILABLE_ERROR_CODE, data: null }, { status: 503 });
+      const quota = quotaResult.reservation;
+      const quotaHeaders = quota ? buildImportQuotaHeaders(quota.status) : {};
+      if (quota && !quota.status.allowed) return Response.json({ success: false, error: "Import quota exceeded", error_code: "QUOTA_EXCEEDED", data: null }, { status: quota.status.exceededStatus, headers: quotaHeaders });
+      const requestId = crypto.randomUUID();
+      const result = await callImportBackend(getImportBackendUrl("/api/v2/import-from-image"), {
+        method: "POST", headers: buildImportBackendHeaders(requestId),
+        body: JSON.stringify({ image_pointers, email, caption, notification_device_id: notification_device_id ?? null }),
+      }, `[IMPORT IMAGE][${requestId}]`);
+      // FastAPI has written imported_content by now, so the row counts instead
+      await releaseImportQuota(supabase, quota, `[IMPORT IMAGE][${requestId}]`);
+      if (!result.ok) return Response.json(buildBackendUnavailableBody(result, requestId), { status: 503, headers: { "Retry-After": String(result.retryAfterSeconds), "X-Request-ID": requestId, ...quotaHeaders } });
+      return new Response(await result.response.text(), { status: result.response.status, headers: { "Content-Type": "application/json", "X-Request-ID": requestId, ...quotaHeaders } });
+    };
+    return await withIdempotency(supabase, req, {
+      scope: "import-recipe-image", userProfileId, requestBody: payload, logPrefix: "[IMPORT IMAGE]",
+      errorResponse: (error, status, error_code, headers) => Response.json({ success: false, error, error_code, data: null }, { status, headers }),
+    }, runImport);
   } catch (error) {
     return Response.json({ success: false, error: error instanceof Error ? error.message : "Unauthorized" }, { status: 401 });
   }
@@ -5,16 +5,40 @@
 // Setup type definitions for built-in Supabase Runtime APIs
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { getAuthenticatedUserOrThrow } from "../utils/auth.ts";
+import {
+  buildBackendUnavailableBody,
+  buildImportBackendHeaders,
+  callImportBackend,
+  getImportBackendUrl,
+} from "../utils/import-backend.ts";
+import {
+  buildImportQuotaHeaders,
+  type ImportQuotaReservation,
+  QUOTA_UNAVAILABLE_ERROR_CODE,
+  releaseImportQuota,
+  reserveImportQuota,
+} from "../utils/import-quota.ts";
+import { withIdempotency } from "../utils/idempotency.ts";
+import { buildImportDebugMetadata, findPublishedDuplicate, normalizeImportUrl } from "../utils/import-url-pipeline.ts";
+import { pickRecipeUrlFromText } from "../utils/shared-text-urls.ts";
+import { validateScanUploadPointers } from "../utils/scan-upload-validation.ts";
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { ImportDuplicateFoundResponse, RestResponse } from "../dto/controller-response.ts";
 
 /**
  * Thin proxy edge function:
  *  - Validates the Supabase auth token (unless in DEV bypass mode)
+ *  - Enforces the caller's plan import quota (skipped in DEV bypass mode)
+ *  - Replays the stored response for a repeated `Idempotency-Key`
  *  - Normalises/sanitises the incoming URL
+ *  - Optionally validates 1–5 `scan-uploads` screenshots sent alongside the URL
  *  - Forwards the request to the FastAPI backend `/api/v2/import-from-url`
+ *    (or `/api/v2/import-from-url-with-images` when screenshots are attached)
  *    which owns ALL Supabase writes for imported_content.
  *
- * This function MUST NOT perform any inserts/updates/RPC calls to Supabase.
+ * This function MUST NOT perform any inserts/updates/RPC calls to Supabase,
+ * apart from its own `idempotency_keys` and `import_quota_reservations` records.
+ * Read-only lookups (auth profile, duplicate pre-check) are allowed.
  */
 Deno.serve(async (req) => {
   const requestId = crypto.randomUUID();
@@ -24,8 +48,14 @@ Deno.serve(async (req) => {
     console.log(`${logPrefix} Request method:`, req.method);
     console.log(`${logPrefix} Request URL:`, req.url);
 
-    const { url, email, notification_device_id } = await req.json();
+    const payload = await req.json();
+    const { url, text, email, notification_device_id, force, image_pointers, caption } = payload;
+    const forceImport = force === true || force === "true";
+    const hasScreenshots = image_pointers !== undefined && image_pointers !== null;
     console.log(`${logPrefix} Received URL:`, url);
+    console.log(`${logPrefix} Received text:`, typeof text === "string" ? text.slice(0, 500) : null);
+    console.log(`${logPrefix} Force import:`, forceImport);
+    console.log(`${logPrefix} Screenshot pointers:`, hasScreenshots ? image_pointers : null);
     console.log(`${logPrefix} Received email:`, maskEmail(email));
 
     // Authenticate user via Supabase (read-only, no DB writes)
@@ -36,10 +66,13 @@ Deno.serve(async (req) => {
     const bypassAuth = shouldBypassAuth();
     console.log(`${logPrefix} Auth bypass check:`, bypassAuth);
 
-    if (!bypassAuth) {
+    let userId: string | null = null;
+    let authUserId: string | null = null;
+    // Screenshot ownership is checked against the caller's auth uid, so the DEV bypass cannot apply
+    if (!bypassAuth || hasScreenshots) {
       console.log(`${logPrefix} Authenticating user...`);
       try {
-        const userId = await getAuthenticatedUserIdOrThrow(supabase, req, requestId);
+        ({ userProfileId: userId, authUserId } = await getAuthenticatedUserIdOrThrow(supabase, req, requestId));
         console.log(`${logPrefix} Authentication successful, user_profile ID:`, userId);
       } catch (authErr) {
         console.error(`${logPrefix} Authentication failed:`, authErr);
@@ -50,72 +83,162 @@ Deno.serve(async (req) => {
       console.log(`${logPrefix} Auth bypassed (DEV mode)`);
     }
 
-    // Sanitize the URL to remove unnecessary parameters / resolve redirects
-    console.log(`${logPrefix} Starting URL sanitization...`);
-    const redirectUrl = normalizeTikTokShortUrlForRedirect(url);
-    console.log(`${logPrefix} Redirect URL candidate:`, redirectUrl);
-    const shouldResolveRedirect = !isYouTubeUrl(redirectUrl);
-    console.log(`${logPrefix} Should resolve redirects:`, shouldResolveRedirect);
-    const resolved = shouldResolveRedirect ? await resolveToFinalUrl(redirectUrl) : redirectUrl;
-    const sanitizedUrl = await sanitizeUrl(resolved);
-    console.log(`${logPrefix} Original URL:`, url);
-    console.log(`${logPrefix} Resolved URL:`, resolved);
-    console.log(`${logPrefix} Sanitized URL:`, sanitizedUrl);
-
-    // Proxy call to FastAPI backend which owns imported_content writes
-    console.log(`${logPrefix} Preparing backend proxy call...`);
-    const backendBaseUrl = Deno.env.get("MS_LLM_BASE_URL") ?? "http://host.docker.internal:8000";
-    const backendUrl = `${backendBaseUrl}/api/v2/import-from-url`;
-    console.log(`${logPrefix} Backend base URL:`, backendBaseUrl);
-    console.log(`${logPrefix} Backend URL:`, backendUrl);
-
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      "X-Request-ID": requestId,
-    };
-    const apiKey = Deno.env.get("MS_LLM_API_KEY");
-    if (apiKey) {
-      headers["x-api-key"] = apiKey;
-      console.log(`${logPrefix} API key found, added to headers`);
-    } else {
-      console.log(`${logPrefix} No API key found in environment`);
-    }
+    const runImport = async (): Promise<Response> => {
+      // Share sheets send free-form text; pick the most recipe-like URL out of it
+      const sharedInput = typeof url === "string" && url.trim() ? url : text;
+      const selection = typeof sharedInput === "string" ? await pickRecipeUrlFromText(sharedInput) : null;
+      if (!selection) {
+        console.warn(`${logPrefix} No usable URL found in input`);
+        return jsonError("No usable URL found in the shared text", 422, "NO_URL_FOUND", requestId);
+      }
+      console.log(`${logPrefix} URL candidates:`, selection.candidates);
+
+      // Sanitize the URL to remove unnecessary parameters / resolve redirects
+      console.log(`${logPrefix} Starting URL sanitization...`);
+      const normalization = await normalizeImportUrl(selection.url, logPrefix);
+      if (!normalization.ok) {
+        return jsonError(normalization.message, normalization.status, normalization.errorCode, requestId);
+      }
+      const normalized = normalization.value;
+      const sanitizedUrl = normalized.canonicalUrl;
+
+      // Combined mode: same ownership/type checks as import-recipe-image, JPEG screenshots only
+      let screenshotPointers: string[] | null = null;
+      if (hasScreenshots && authUserId) {
+        const validation = await validateScanUploadPointers(supabase, image_pointers, authUserId, logPrefix, { allowPdf: false });
+        if (!validation.ok) {
+          return jsonError(validation.message, validation.status, validation.errorCode, requestId);
+        }
+        screenshotPointers = validation.uploads.map((upload) => upload.pointer);
+      }
+
+      // Skip the LLM extraction when this canonical URL is already a published browsable recipe.
+      // Attached screenshots may carry what the published recipe lacks, so they always go to the backend.
+      if (!forceImport && !screenshotPointers) {
+        const duplicate = await findPublishedDuplicate(supabase, sanitizedUrl, logPrefix);
+        if (duplicate) {
+          console.log(`${logPrefix} ===== END: Duplicate found, skipping backend =====`, duplicate);
+          return jsonOk<RestResponse<ImportDuplicateFoundResponse>>({
+            success: true,
+            error: null,
+            error_code: null,
+            data: duplicate,
+          }, requestId);
+        }
+      }
+
+      // Duplicates above do not consume quota; everything reaching the backend does
+      let quotaHeaders: Record<string, string> = {};
+      let quotaReservation: ImportQuotaReservation | null = null;
+      if (userId) {
+        const quota = await reserveImportQuota(supabase, userId, 1, logPrefix);
+        if (!quota.ok) {
+          return jsonError("Import quota is temporarily unavailable", 503, QUOTA_UNAVAILABLE_ERROR_CODE, requestId);
+        }
+        quotaReservation = quota.reservation;
+        if (quotaReservation) {
+          quotaHeaders = buildImportQuotaHeaders(quotaReservation.status);
+          if (!quotaReservation.status.allowed) {
+            console.warn(`${logPrefix} ===== END: Import quota exceeded =====`, quotaReservation.status);
+            return jsonError(
+              "Import quota exceeded",
+              quotaReservation.status.exceededStatus,
+              "QUOTA_EXCEEDED",
+              requestId,
+              quotaHeaders,
+            );
+          }
+        }
+      } else {
+        console.log(`${logPrefix} Quota check skipped (DEV auth bypass)`);
+      }
 
-    const requestBody = {
-      url: sanitizedUrl,
-      email,
-      mode: "async",
-      request_id: requestId,
-      notification_device_id: notification_device_id ?? null,
+      // Proxy call to FastAPI backend which owns imported_content writes
+      console.log(`${logPrefix} Preparing backend proxy call...`);
+      const backendUrl = getImportBackendUrl(
+        screenshotPointers ? "/api/v2/import-from-url-with-images" : "/api/v2/import-from-url",
+      );
+      console.log(`${logPrefix} Backend URL:`, backendUrl);
+
+      const headers = buildImportBackendHeaders(requestId);
+      console.log(`${logPrefix} API key present:`, !!headers["x-api-key"]);
+
+      const requestBody = {
+        url: sanitizedUrl,
+        email,
+        mode: "async",
+        request_id: requestId,
+        notification_device_id: notification_device_id ?? null,
+        debug: buildImportDebugMetadata(normalized),
+        ...(screenshotPointers
+          ? { image_pointers: screenshotPointers, caption: typeof caption === "string" && caption.trim() ? caption.trim() : null }
+          : {}),
+      };
+      console.log(`${logPrefix} Backend request summary:`, {
+        url: requestBody.url,
+        mode: requestBody.mode,
+        screenshotCount: screenshotPointers?.length ?? 0,
+        emailPresent: !!email,
+        email: maskEmail(email),
+        redirectHops: normalized.redirectChain.length,
+        redirectErrorCode: normalized.redirectErrorCode,
+      });
+
+      console.log(`${logPrefix} Calling backend with retry logic...`);
+      const backendResult = await callImportBackend(backendUrl, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(requestBody),
+      }, logPrefix);
+      // FastAPI has written imported_content by now, so the row counts instead
+      await releaseImportQuota(supabase, quotaReservation, logPrefix);
+
+      if (!backendResult.ok) {
+        console.error(`${logPrefix} ===== END: Backend unavailable =====`, {
+          reason: backendResult.reason,
+          attempts: backendResult.attempts,
+        });
+        return new Response(JSON.stringify(buildBackendUnavailableBody(backendResult, requestId)), {
+          status: 503,
+          headers: {
+            "Content-Type": "application/json",
+            "X-Request-ID": requestId,
+            "Retry-After": String(backendResult.retryAfterSeconds),
+            ...quotaHeaders,
+          },
+        });
+      }
+
+      const backendResponse = backendResult.response;
+      const body = await backendResponse.text();
+      console.log(`${logPrefix} Backend response summary:`, summarizeBackendResponse(body));
+      console.log(`${logPrefix} Backend response status:`, backendResponse.status);
+      console.log(`${logPrefix} Backend response content-type:`, backendResponse.headers.get("Content-Type"));
+
+      console.log(`${logPrefix} ===== END: Returning response to client =====`);
+      return new Response(body, {
+        status: backendResponse.status,
+        headers: {
+          "Content-Type": backendResponse.headers.get("Content-Type") ?? "application/json",
+          "X-Request-ID": requestId,
+          ...quotaHeaders,
+        },
+      });
     };
-    console.log(`${logPrefix} Backend request summary:`, {
-      url: requestBody.url,
-      mode: requestBody.mode,
-      emailPresent: !!email,
-      email: maskEmail(email),
-    });
 
-    console.log(`${logPrefix} Calling backend with retry logic...`);
-    const backendResponse = await fetchWithRetry(backendUrl, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestBody),
-    }, requestId);
-
-
-    const body = await backendResponse.text();
-    console.log(`${logPrefix} Backend response summary:`, summarizeBackendResponse(body));
-    console.log(`${logPrefix} Backend response status:`, backendResponse.status);
-    console.log(`${logPrefix} Backend response content-type:`, backendResponse.headers.get("Content-Type"));
-
-    console.log(`${logPrefix} ===== END: Returning response to client =====`);
-    return new Response(body, {
-      status: backendResponse.status,
-      headers: {
-        "Content-Type": backendResponse.headers.get("Content-Type") ?? "application/json",
-        "X-Request-ID": requestId,
-      },
-    });
+    if (!userId) {
+      console.log(`${logPrefix} Idempotency skipped (DEV auth bypass)`);
+      return await runImport();
+    }
+
+    return await withIdempotency(supabase, req, {
+      scope: "import-recipe",
+      userProfileId: userId,
+      requestBody: payload,
+      logPrefix,
+      errorResponse: (message, status, errorCode, extraHeaders) =>
+        jsonError(message, status, errorCode, requestId, extraHeaders),
+    }, runImport);
   } catch (error) {
     console.error(`${logPrefix} ===== ERROR: Exception caught in main handler =====`);
     console.error(`${logPrefix} Error type:`, error?.constructor?.name);
@@ -160,7 +283,11 @@ function createSupabaseAdminClient(): SupabaseClient {
   return createClient(supabaseUrl, supabaseServiceKey);
 }
 
-async function getAuthenticatedUserIdOrThrow(supabase: SupabaseClient, req: Request, requestId: string): Promise<string> {
+async function getAuthenticatedUserIdOrThrow(
+  supabase: SupabaseClient,
+  req: Request,
+  requestId: string,
+): Promise<{ userProfileId: string; authUserId: string }> {
   const logPrefix = `[IMPORT URL][${requestId}]`;
   console.log(`${logPrefix} getAuthenticatedUserIdOrThrow: Starting authentication...`);
   const user = await getAuthenticatedUserOrThrow(supabase, req);
@@ -180,64 +307,15 @@ async function getAuthenticatedUserIdOrThrow(supabase: SupabaseClient, req: Requ
   }
 
   console.log(`${logPrefix} getAuthenticatedUserIdOrThrow: Profile found, ID:`, profile.id);
-  return profile.id as string;
+  return { userProfileId: profile.id as string, authUserId: user.id };
 }
 
-async function fetchWithRetry(url: string, init: RequestInit, requestId: string, maxAttempts = 3, baseDelayMs = 200): Promise<Response> {
-  const logPrefix = `[IMPORT URL][${requestId}]`;
-  console.log(`${logPrefix} fetchWithRetry: Starting fetch with retry logic`, {
-    url,
-    maxAttempts,
-    baseDelayMs,
-    method: init.method,
-  });
-  let lastError: unknown;
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      console.log(`${logPrefix} fetchWithRetry: Making fetch request to ${url} (attempt ${attempt})`);
-      const res = await fetch(url, init);
-      console.log(`${logPrefix} fetchWithRetry: Response received, status: ${res.status}`);
-
-      // If it's a success or a non-retryable error, return immediately
-      const shouldRetry = shouldRetryResponse(res);
-      console.log(`${logPrefix} fetchWithRetry: Should retry: ${shouldRetry}, is last attempt: ${attempt === maxAttempts}`);
-
-      if (!shouldRetry || attempt === maxAttempts) {
-        console.log(`${logPrefix} fetchWithRetry: Returning response (status: ${res.status})`);
-        return res;
-      }
-
-      console.warn(`${logPrefix} fetchWithRetry: Backend responded with ${res.status}, retrying (${attempt}/${maxAttempts})`);
-    } catch (err) {
-      lastError = err;
-      console.error(`${logPrefix} fetchWithRetry: Fetch error on attempt ${attempt}:`, err);
-
-      if (attempt === maxAttempts) {
-        console.error(`${logPrefix} fetchWithRetry: Failed to reach backend after all retries`);
-        throw err;
-      }
-
-      console.warn(`${logPrefix} fetchWithRetry: Network error calling backend, retrying (${attempt}/${maxAttempts})`);
-    }
-
-    const delay = baseDelayMs * attempt;
-    console.log(`${logPrefix} fetchWithRetry: Waiting ${delay}ms before next attempt...`);
-    await new Promise((resolve) => setTimeout(resolve, delay));
-  }
-
-  console.error(`${logPrefix} fetchWithRetry: Exhausted all retries, throwing error`);
-  throw lastError instanceof Error ? lastError : new Error("Unknown fetch error after retries");
-}
-
-function shouldRetryResponse(res: Response): boolean {
-  // Retry on common transient upstream errors
-  return res.status === 502 || res.status === 503 || res.status === 504;
-}
-
-function jsonOk<T>(data: T): Response {
+function jsonOk<T>(data: T, request_id: string | null = null): Response {
   return new Response(JSON.stringify(data), {
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      ...(request_id ? { "X-Request-ID": request_id } : {}),
+    },
   });
 }
 
@@ -248,7 +326,13 @@ function jsonAccepted<T>(data: T): Response {
   });
 }
 
-function jsonError(message: string, status = 500, error_code: string | null = null, request_id: string | null = null): Response {
+function jsonError(
+  message: string,
+  status = 500,
+  error_code: string | null = null,
+  request_id: string | null = null,
+  extraHeaders: Record<string, string> = {},
+): Response {
   const body = {
     success: false,
     error: message,
@@ -261,6 +345,7 @@ function jsonError(message: string, status = 500, error_code: string | null = nu
     headers: {
       "Content-Type": "application/json",
       ...(request_id ? { "X-Request-ID": request_id } : {}),
+      ...extraHeaders,
     },
   });
 }
@@ -295,132 +380,7 @@ function summarizeBackendResponse(body: string): Record<string, unknown> {
   }
 }
 
-const resolveToFinalUrl = async (url: string): Promise<string> => {
-  try {
-    const res = await fetch(url, { redirect: "follow" });
-    return res.url;
-  } catch (error) {
-    throw error;
-  }
-};
-
-function isYouTubeUrl(url: string): boolean {
-  try {
-    const host = new URL(url).hostname.toLowerCase();
-    return (
-      host === "youtube.com" ||
-      host.endsWith(".youtube.com") ||
-      host === "youtube-nocookie.com" ||
-      host.endsWith(".youtube-nocookie.com") ||
-      host === "youtu.be" ||
-      host.endsWith(".youtu.be")
-    );
-  } catch {
-    return false;
-  }
-}
-
-const normalizeTikTokShortUrlForRedirect = (url: string): string => {
-  try {
-    const parsed = new URL(url);
-    if (parsed.hostname.toLowerCase() !== "vt.tiktok.com") {
-      return url;
-    }
-
-    parsed.pathname = parsed.pathname.replace(/\/+$/g, "");
-    return parsed.toString();
-  } catch {
-    return url;
-  }
-};
-
-const sanitizeUrl = async (url: string): Promise<string> => {
-
-  let minimalUrl: string | null = null;
-
-  // TikTok → prefer https://www.tiktok.com/@<username>/video/<video_id>
-  if (url.includes("tiktok.com")) {
-    // If username is present, preserve it
-    const withUser = url.match(/\/@([^/]+)\/video\/(\d+)/);
-    if (withUser) {
-      minimalUrl = `https://www.tiktok.com/@${withUser[1]}/video/${withUser[2]}`;
-    } else {
-      // Try canonical tag to resolve username form
-      const canonical = await getCanonicalFromHtml(url, "tiktok");
-      if (canonical) {
-        minimalUrl = canonical;
-      } else {
-        // Fallback: keep the original URL (without query) if username is missing
-        const idOnly = url.match(/\/video\/(\d+)/);
-        if (idOnly) {
-          const u = new URL(url);
-          u.search = "";
-          minimalUrl = u.toString();
-        }
-      }
-    }
-  } // Instagram → keep only https://www.instagram.com/reel/<shortcode>/ (no username requirement)
-  else if (url.includes("instagram.com")) {
-    const match = url.match(/\/reel\/([A-Za-z0-9_-]+)/);
-    if (match) {
-      minimalUrl = `https://www.instagram.com/p/${match[1]}/`;
-    }
-  } else if (url.includes("youtube.com")) {
-    const match = url.match(/\/watch\?v=([A-Za-z0-9_-]+)/);
-    if (match) {
-      minimalUrl = `https://www.youtube.com/watch?v=${match[1]}`;
-    } else {
-      const shortsMatch = url.match(/\/shorts\/([A-Za-z0-9_-]+)/);
-      if (shortsMatch) {
-        minimalUrl = `https://www.youtube.com/shorts/${shortsMatch[1]}`;
-      }
-    }
-  } else if (url.includes("youtu.be")) {
-    const match = url.match(/youtu\.be\/([A-Za-z0-9_-]+)/);
-    if (match) {
-      minimalUrl = `https://www.youtube.com/watch?v=${match[1]}`;
-    }
-  }
-
-  // if it's not tiktok or instagram, return the final URL
-  if (!minimalUrl) {
-    // Remove the query params from the final URL
-    const urlObj = new URL(url);
-    urlObj.search = "";
-    minimalUrl = urlObj.toString();
-    return minimalUrl;
-  }
-
-  return minimalUrl;
-};
-
 async function findUserProfileByEmail(supabase: SupabaseClient, email: string) {
   const { data, error } = await supabase.from("user_profile").select("*").eq("email", email).single();
   return data;
 }
-
-async function getCanonicalFromHtml(pageUrl: string, platform: "tiktok"): Promise<string | null> {
-  try {
-    const resp = await fetch(pageUrl, {
-      redirect: "follow",
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36",
-        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-      },
-    });
-    const html = await resp.text();
-
-    if (platform === "tiktok") {
-      const m = html.match(/<link[^>]+rel=["']canonical["'][^>]+href=["'](https?:\/\/www\.tiktok\.com\/@[^"']+?\/video\/\d+)["']/i);
-      if (m) {
-        const u = new URL(m[1]);
-        u.search = "";
-        const canonicalUrl = u.toString();
-        return canonicalUrl;
-      }
-    }
-  } catch (err) {
-    // ignore parsing/network errors; caller will fallback
-  }
-  return null;
-}
@@ -0,0 +1,437 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getAuthenticatedUserOrThrow } from "../utils/auth.ts";
+import { mapWithConcurrency } from "../utils/concurrency.ts";
+import { buildImportBackendHeaders, callImportBackend, getImportBackendUrl } from "../utils/import-backend.ts";
+import {
+  buildImportQuotaHeaders,
+  QUOTA_UNAVAILABLE_ERROR_CODE,
+  releaseImportQuota,
+  reserveImportQuota,
+} from "../utils/import-quota.ts";
+import {
+  buildImportDebugMetadata,
+  findPublishedDuplicate,
+  type NormalizedImportUrl,
+  normalizeImportUrl,
+} from "../utils/import-url-pipeline.ts";
+import { extractRecipeUrlCandidates } from "../utils/shared-text-urls.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { RestResponse } from "../dto/controller-response.ts";
+
+const MAX_BATCH_URLS = 20;
+const BACKEND_CONCURRENCY = 3;
+
+interface BatchImportItemResult {
+  index: number;
+  input: string;
+  canonical_url: string | null;
+  status: "PROCESSING" | "COMPLETED" | "FAILED" | "DUPLICATE_FOUND" | "ERROR";
+  extract_id: string | null;
+  browsable_recipe_id: string | null;
+  error: string | null;
+  error_code: string | null;
+  // Index of the earlier item with the same canonical URL this result was copied from
+  duplicate_of: number | null;
+  request_id: string | null;
+}
+
+// Imports left for this batch; null when quota is not enforced
+interface QuotaSlots {
+  remaining: number | null;
+}
+
+interface BatchImportResponse {
+  batch_id: string;
+  results: BatchImportItemResult[];
+  accepted_count: number;
+  failed_count: number;
+}
+
+/**
+ * Batch URL import edge function:
+ *  - Accepts up to MAX_BATCH_URLS URLs (`urls`) and/or a raw share-sheet text blob (`text`)
+ *  - Runs every URL through the same resolve/canonicalize/duplicate pipeline as `import-recipe`
+ *  - Dedupes by canonical URL, then forwards each unique URL to FastAPI `/api/v2/import-from-url`
+ *  - Forwards at most the caller's remaining import quota; later items fail with `QUOTA_EXCEEDED`
+ *  - Returns one result per submitted URL with either an `extract_id` or an `error_code`
+ *
+ * Like `import-recipe`, this function MUST NOT write to Supabase; FastAPI owns imported_content.
+ */
+Deno.serve(async (req) => {
+  const batchId = crypto.randomUUID();
+  const logPrefix = `[IMPORT BATCH][${batchId}]`;
+  try {
+    console.log(`${logPrefix} ===== START: Batch importing recipes from URLs (edge proxy) =====`);
+
+    if (req.method !== "POST") {
+      return jsonError("Method not allowed", 405, "METHOD_NOT_ALLOWED", batchId);
+    }
+
+    const { urls, text, email, force } = await req.json();
+    const forceImport = force === true || force === "true";
+    console.log(`${logPrefix} Received email:`, maskEmail(email));
+    console.log(`${logPrefix} Force import:`, forceImport);
+
+    const supabase = createSupabaseAdminClient();
+    let userId: string | null = null;
+    if (!shouldBypassAuth()) {
+      try {
+        userId = await getAuthenticatedUserIdOrThrow(supabase, req, logPrefix);
+        console.log(`${logPrefix} Authentication successful, user_profile ID:`, userId);
+      } catch (authErr) {
+        console.error(`${logPrefix} Authentication failed:`, authErr);
+        const message = authErr instanceof Error ? authErr.message : "Unauthorized";
+        return jsonError(message, 401, null, batchId);
+      }
+    } else {
+      console.log(`${logPrefix} Auth bypassed (DEV mode)`);
+    }
+
+    const inputs = await collectInputUrls(urls, text);
+    console.log(`${logPrefix} Collected ${inputs.length} input URL(s)`);
+
+    if (inputs.length === 0) {
+      return jsonError("Provide urls or text containing at least one URL", 422, "NO_URLS", batchId);
+    }
+
+    if (inputs.length > MAX_BATCH_URLS) {
+      return jsonError(`A batch can contain at most ${MAX_BATCH_URLS} URLs`, 422, "TOO_MANY_URLS", batchId);
+    }
+
+    // One slot per input, reserved up front and released once every backend call has returned
+    const quotaResult = userId ? await reserveImportQuota(supabase, userId, inputs.length, logPrefix) : null;
+    if (!userId) {
+      console.log(`${logPrefix} Quota check skipped (DEV auth bypass)`);
+    }
+    if (quotaResult && !quotaResult.ok) {
+      return jsonError("Import quota is temporarily unavailable", 503, QUOTA_UNAVAILABLE_ERROR_CODE, batchId);
+    }
+    const quota = quotaResult?.reservation ?? null;
+    if (quota && !quota.status.allowed) {
+      console.warn(`${logPrefix} ===== END: Import quota exceeded =====`, quota.status);
+      return jsonError("Import quota exceeded", quota.status.exceededStatus, "QUOTA_EXCEEDED", batchId, buildImportQuotaHeaders(quota.status));
+    }
+    const quotaSlots: QuotaSlots = { remaining: quota ? quota.granted : null };
+
+    // Normalise every input first so duplicates can be collapsed before any backend call
+    const normalizations = await mapWithConcurrency(inputs, BACKEND_CONCURRENCY, (input, index) =>
+      normalizeImportUrl(input, `${logPrefix}[${index}]`)
+    );
+
+    const firstIndexByCanonical = new Map<string, number>();
+    const results: BatchImportItemResult[] = new Array(inputs.length);
+    const uniqueIndexes: number[] = [];
+
+    normalizations.forEach((normalization, index) => {
+      if (!normalization.ok) {
+        results[index] = {
+          ...emptyResult(index, inputs[index]),
+          status: "ERROR",
+          error: normalization.message,
+          error_code: normalization.errorCode,
+        };
+        return;
+      }
+
+      const canonicalUrl = normalization.value.canonicalUrl;
+      if (!firstIndexByCanonical.has(canonicalUrl)) {
+        firstIndexByCanonical.set(canonicalUrl, index);
+        uniqueIndexes.push(index);
+      }
+    });
+
+    await mapWithConcurrency(uniqueIndexes, BACKEND_CONCURRENCY, async (index) => {
+      const normalization = normalizations[index];
+      if (!normalization.ok) return;
+      results[index] = await importOne(supabase, index, normalization.value, email, forceImport, quotaSlots, batchId, logPrefix);
+    });
+    await releaseImportQuota(supabase, quota, logPrefix);
+
+    normalizations.forEach((normalization, index) => {
+      if (!normalization.ok || results[index]) return;
+      const firstIndex = firstIndexByCanonical.get(normalization.value.canonicalUrl)!;
+      results[index] = {
+        ...results[firstIndex],
+        index,
+        input: inputs[index],
+        duplicate_of: firstIndex,
+      };
+    });
+
+    const failedCount = results.filter((result) => result.status === "ERROR" || result.status === "FAILED").length;
+    console.log(`${logPrefix} ===== END: Returning batch results =====`, {
+      total: results.length,
+      unique: uniqueIndexes.length,
+      failed: failedCount,
+    });
+
+    // Slots this batch reserved but did not use are free again
+    const quotaHeaders = quota
+      ? buildImportQuotaHeaders({ ...quota.status, remaining: quota.status.remaining + (quotaSlots.remaining ?? 0) })
+      : {};
+    return jsonOk<BatchImportResponse>({
+      batch_id: batchId,
+      results,
+      accepted_count: results.length - failedCount,
+      failed_count: failedCount,
+    }, batchId, quotaHeaders);
+  } catch (error) {
+    console.error(`${logPrefix} ===== ERROR: Exception caught in main handler =====`);
+    console.error(`${logPrefix} Error message:`, error instanceof Error ? error.message : String(error));
+    console.error(`${logPrefix} Error stack:`, error instanceof Error ? error.stack : "No stack trace");
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonError(message, 500, null, batchId);
+  }
+});
+
+// ------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------
+
+async function importOne(
+  supabase: SupabaseClient,
+  index: number,
+  normalized: NormalizedImportUrl,
+  email: unknown,
+  forceImport: boolean,
+  quotaSlots: QuotaSlots,
+  batchId: string,
+  batchLogPrefix: string,
+): Promise<BatchImportItemResult> {
+  const requestId = crypto.randomUUID();
+  const logPrefix = `${batchLogPrefix}[${index}][${requestId}]`;
+  const base = {
+    ...emptyResult(index, normalized.submittedUrl),
+    canonical_url: normalized.canonicalUrl,
+    request_id: requestId,
+  };
+
+  if (!forceImport) {
+    const duplicate = await findPublishedDuplicate(supabase, normalized.canonicalUrl, logPrefix);
+    if (duplicate) {
+      return {
+        ...base,
+        status: "DUPLICATE_FOUND",
+        extract_id: duplicate.extract_id,
+        browsable_recipe_id: duplicate.browsable_recipe_id,
+      };
+    }
+  }
+
+  if (quotaSlots.remaining !== null) {
+    if (quotaSlots.remaining <= 0) {
+      console.warn(`${logPrefix} Import quota exhausted, skipping backend`);
+      return {
+        ...base,
+        status: "ERROR",
+        error: "Import quota exceeded",
+        error_code: "QUOTA_EXCEEDED",
+      };
+    }
+    quotaSlots.remaining -= 1;
+  }
+
+  try {
+    const backendResult = await callImportBackend(getImportBackendUrl("/api/v2/import-from-url"), {
+      method: "POST",
+      headers: buildImportBackendHeaders(requestId),
+      body: JSON.stringify({
+        url: normalized.canonicalUrl,
+        email,
+        mode: "async",
+        request_id: requestId,
+        batch_id: batchId,
+        // One batch should not fan out into one push notification per URL
+        notification_device_id: null,
+        debug: buildImportDebugMetadata(normalized),
+      }),
+    }, logPrefix);
+
+    if (!backendResult.ok) {
+      return {
+        ...base,
+        status: "ERROR",
+        error: backendResult.message,
+        error_code: backendResult.errorCode,
+      };
+    }
+
+    const backendResponse = backendResult.response;
+    const body = await backendResponse.text();
+    console.log(`${logPrefix} Backend response status:`, backendResponse.status);
+    return { ...base, ...parseBackendResult(body, backendResponse.status) };
+  } catch (error) {
+    console.error(`${logPrefix} Backend call failed:`, error);
+    return {
+      ...base,
+      status: "ERROR",
+      error: error instanceof Error ? error.message : "Unknown error",
+      error_code: "BACKEND_REQUEST_FAILED",
+    };
+  }
+}
+
+function parseBackendResult(
+  body: string,
+  httpStatus: number,
+): Pick<BatchImportItemResult, "status" | "extract_id" | "error" | "error_code"> {
+  try {
+    const parsed = JSON.parse(body);
+    const data = parsed?.data ?? null;
+    const extractId = typeof data?.extract_id === "string" ? data.extract_id : null;
+
+    if (parsed?.success && extractId) {
+      const status = data.status === "COMPLETED" || data.status === "FAILED" ? data.status : "PROCESSING";
+      return {
+        status,
+        extract_id: extractId,
+        error: null,
+        error_code: data.error_code ?? null,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      extract_id: extractId,
+      error: parsed?.error ?? parsed?.detail?.message ?? `Backend responded with ${httpStatus}`,
+      error_code: parsed?.error_code ?? parsed?.detail?.code ?? "BACKEND_ERROR",
+    };
+  } catch {
+    return {
+      status: "ERROR",
+      extract_id: null,
+      error: `Backend responded with ${httpStatus}`,
+      error_code: "BACKEND_ERROR",
+    };
+  }
+}
+
+/**
+ * Collects at most MAX_BATCH_URLS + 1 inputs, so an oversized batch is rejected
+ * before its text URLs are unwrapped over the network.
+ */
+async function collectInputUrls(urls: unknown, text: unknown): Promise<string[]> {
+  const inputs: string[] = [];
+  const maxInputs = MAX_BATCH_URLS + 1;
+
+  if (Array.isArray(urls)) {
+    for (const value of urls) {
+      if (inputs.length >= maxInputs) {
+        return inputs;
+      }
+      if (typeof value === "string" && value.trim()) {
+        inputs.push(value.trim());
+      }
+    }
+  }
+
+  if (typeof text === "string" && text.trim() && inputs.length < maxInputs) {
+    const candidates = await extractRecipeUrlCandidates(text, maxInputs - inputs.length);
+    inputs.push(...candidates.map((candidate) => candidate.url));
+  }
+
+  return inputs;
+}
+
+function emptyResult(index: number, input: string): BatchImportItemResult {
+  return {
+    index,
+    input,
+    canonical_url: null,
+    status: "ERROR",
+    extract_id: null,
+    browsable_recipe_id: null,
+    error: null,
+    error_code: null,
+    duplicate_of: null,
+    request_id: null,
+  };
+}
+
+function getBooleanEnv(name: string, defaultValue = false): boolean {
+  const raw = (Deno.env.get(name) || "").toLowerCase();
+  if (!raw) return defaultValue;
+  return raw === "true" || raw === "1" || raw === "yes";
+}
+
+function isDevelopment(): boolean {
+  const envValue = (Deno.env.get("NODE_ENV") || Deno.env.get("ENVIRONMENT") || "").toLowerCase();
+  return envValue === "development";
+}
+
+function shouldBypassAuth(): boolean {
+  return isDevelopment() && getBooleanEnv("IMPORT_RECIPE_NO_AUTH", false);
+}
+
+function createSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("[IMPORT BATCH] Missing Supabase environment variables!");
+  }
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+async function getAuthenticatedUserIdOrThrow(supabase: SupabaseClient, req: Request, logPrefix: string): Promise<string> {
+  const user = await getAuthenticatedUserOrThrow(supabase, req);
+  const { data: profile, error } = await supabase.from("user_profile").select("id").eq("auth_id", user.id).single();
+
+  if (error || !profile) {
+    console.error(`${logPrefix} getAuthenticatedUserIdOrThrow: User profile not found`, {
+      authUserId: user.id,
+      error: error?.message || error,
+    });
+    throw new Error("User profile not found");
+  }
+
+  return profile.id as string;
+}
+
+function jsonOk<T>(data: T, request_id: string | null = null, extraHeaders: Record<string, string> = {}): Response {
+  const body: RestResponse<T> = {
+    success: true,
+    error: null,
+    error_code: null,
+    data,
+  };
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json",
+      ...(request_id ? { "X-Request-ID": request_id } : {}),
+      ...extraHeaders,
+    },
+  });
+}
+
+function jsonError(
+  message: string,
+  status = 500,
+  error_code: string | null = null,
+  request_id: string | null = null,
+  extraHeaders: Record<string, string> = {},
+): Response {
+  const body = {
+    success: false,
+    error: message,
+    error_code,
+    request_id,
+    data: null,
+  };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...(request_id ? { "X-Request-ID": request_id } : {}),
+      ...extraHeaders,
+    },
+  });
+}
+
+function maskEmail(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const [name, domain] = value.trim().split("@");
+  if (!domain) return "***";
+  const prefix = name ? `${name.slice(0, 2)}***` : "***";
+  return `${prefix}@${domain}`;
+}
@@ -0,0 +1,442 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getUserFromAccessTokenOrThrow } from "../utils/auth.ts";
+import type {
+  ImportErrorDisplay,
+  ImportStatusResponse,
+  RestResponse,
+} from "../dto/controller-response.ts";
+
+const DEFAULT_LANGUAGE = "EN";
+const SUPPORTED_LANGUAGES = ["EN", "BM"];
+const FALLBACK_ERROR_CODE = "IMPORT_FAILED";
+const TERMINAL_STATUSES = ["COMPLETED", "FAILED"];
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STREAM_POLL_INTERVAL_MS = 2000;
+const STREAM_KEEPALIVE_INTERVAL_MS = 15000;
+// Below the edge runtime wall-clock limit; clients reconnect on `timeout`.
+const STREAM_MAX_DURATION_MS = 120000;
+
+interface ImportedContentRow {
+  id: string;
+  user_id: string | null;
+  source_url: string | null;
+  content: ImportStatusResponse["content"];
+  status: ImportStatusResponse["status"] | null;
+  is_recipe_content: boolean | null;
+  error_code: string | null;
+  error_display: Record<string, ImportErrorDisplay> | null;
+  retry_count: number | null;
+  updated_at: string | null;
+}
+
+/**
+ * Read-only status lookup for an import owned by the caller.
+ *
+ *   GET /import-status?extract_id=<uuid>[&lang=EN|BM]
+ *   GET /import-status?extract_id=<uuid>&stream=true   (Server-Sent Events)
+ *
+ * `imported_content_id` is accepted as an alias for `extract_id`. The stream
+ * emits a `status` event on every change and closes after a terminal status.
+ * EventSource cannot set headers, so the access token may also be passed as
+ * `access_token`.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders() });
+  }
+
+  if (req.method !== "GET") {
+    return jsonError("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+  }
+
+  try {
+    const url = new URL(req.url);
+    const extractId = getExtractIdFromRequest(url);
+    if (!extractId) {
+      return jsonError(
+        "extract_id is required",
+        400,
+        "MISSING_EXTRACT_ID",
+      );
+    }
+    if (!UUID_PATTERN.test(extractId)) {
+      return jsonError("extract_id must be a UUID", 400, "INVALID_EXTRACT_ID");
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const authUser = await getUserFromAccessTokenOrThrow(
+      supabase,
+      getAccessTokenOrThrow(req, url),
+    );
+    const userProfileId = await getUserProfileIdOrThrow(supabase, authUser.id);
+    const language = getLanguageFromRequest(req, url);
+
+    const row = await fetchOwnedImport(supabase, extractId, userProfileId);
+    if (!row) {
+      return jsonError("Import not found", 404, "IMPORT_NOT_FOUND");
+    }
+
+    const status = await buildImportStatus(supabase, row, language);
+
+    if (wantsEventStream(req, url)) {
+      return streamImportStatus(
+        supabase,
+        extractId,
+        userProfileId,
+        language,
+        status,
+        req.signal,
+      );
+    }
+
+    return jsonSuccess(status);
+  } catch (error) {
+    console.error("[IMPORT STATUS] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const status = isUnauthorizedError(message)
+      ? 401
+      : isClientError(message)
+      ? 400
+      : 500;
+    const errorCode = isUnauthorizedError(message)
+      ? "UNAUTHORIZED"
+      : isClientError(message)
+      ? "INVALID_REQUEST"
+      : "INTERNAL_ERROR";
+    return jsonError(message, status, errorCode);
+  }
+});
+
+function createSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+function getAccessTokenOrThrow(req: Request, url: URL): string {
+  const authHeader = req.headers.get("Authorization");
+  if (authHeader) {
+    return authHeader.replace("Bearer ", "");
+  }
+
+  const queryToken = url.searchParams.get("access_token")?.trim();
+  if (queryToken) {
+    return queryToken;
+  }
+
+  throw new Error("Authorization header required");
+}
+
+async function getUserProfileIdOrThrow(
+  supabase: SupabaseClient,
+  authUserId: string,
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("user_profile")
+    .select("id")
+    .eq("auth_id", authUserId)
+    .single();
+
+  if (error || !data?.id) {
+    throw new Error("User profile not found");
+  }
+
+  return data.id as string;
+}
+
+function getExtractIdFromRequest(url: URL): string {
+  return url.searchParams.get("extract_id")?.trim() ||
+    url.searchParams.get("imported_content_id")?.trim() ||
+    "";
+}
+
+function getLanguageFromRequest(req: Request, url: URL): string {
+  const queryLanguage = url.searchParams.get("lang")?.trim().toUpperCase();
+  if (queryLanguage && SUPPORTED_LANGUAGES.includes(queryLanguage)) {
+    return queryLanguage;
+  }
+
+  const acceptLanguage = req.headers.get("Accept-Language")?.toLowerCase() ??
+    "";
+  return acceptLanguage.startsWith("ms") ? "BM" : DEFAULT_LANGUAGE;
+}
+
+function wantsEventStream(req: Request, url: URL): boolean {
+  const stream = url.searchParams.get("stream");
+  return stream === "true" || stream === "1" ||
+    (req.headers.get("Accept") ?? "").includes("text/event-stream");
+}
+
+async function fetchOwnedImport(
+  supabase: SupabaseClient,
+  extractId: string,
+  userProfileId: string,
+): Promise<ImportedContentRow | null> {
+  const { data, error } = await supabase
+    .from("imported_content")
+    .select(
+      "id, user_id, source_url, content, status, is_recipe_content, error_code, error_display, retry_count, updated_at",
+    )
+    .eq("id", extractId)
+    .eq("user_id", userProfileId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[IMPORT STATUS] Query failed:", error);
+    throw new Error("Failed to fetch import status");
+  }
+
+  return (data as ImportedContentRow | null) ?? null;
+}
+
+async function buildImportStatus(
+  supabase: SupabaseClient,
+  row: ImportedContentRow,
+  language: string,
+): Promise<ImportStatusResponse> {
+  const status = row.status ?? "PROCESSING";
+
+  return {
+    extract_id: row.id,
+    imported_content_id: row.id,
+    status,
+    is_terminal: TERMINAL_STATUSES.includes(status),
+    is_recipe_content: row.is_recipe_content,
+    error_code: row.error_code,
+    error_display: row.error_code
+      ? await resolveErrorDisplay(supabase, row, language)
+      : null,
+    content: row.content ?? null,
+    source_url: row.source_url,
+    retry_count: row.retry_count ?? 0,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Prefer the snapshot written with the terminal row; old rows without one
+ * fall back to the catalogue, then to the generic IMPORT_FAILED copy.
+ */
+async function resolveErrorDisplay(
+  supabase: SupabaseClient,
+  row: ImportedContentRow,
+  language: string,
+): Promise<ImportErrorDisplay | null> {
+  const snapshot = row.error_display?.[language] ??
+    row.error_display?.[DEFAULT_LANGUAGE];
+  if (snapshot?.title && snapshot?.message) {
+    return { title: snapshot.title, message: snapshot.message };
+  }
+
+  const { data, error } = await supabase
+    .from("error_messages")
+    .select("error_code, language, title, message")
+    .in("error_code", [row.error_code, FALLBACK_ERROR_CODE])
+    .in("language", [language, DEFAULT_LANGUAGE])
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("[IMPORT STATUS] Error message lookup failed:", error);
+    return null;
+  }
+
+  const messages = (data ?? []) as Array<
+    ImportErrorDisplay & { error_code: string; language: string }
+  >;
+  for (const errorCode of [row.error_code, FALLBACK_ERROR_CODE]) {
+    for (const candidateLanguage of [language, DEFAULT_LANGUAGE]) {
+      const match = messages.find((message) =>
+        message.error_code === errorCode &&
+        message.language === candidateLanguage
+      );
+      if (match) {
+        return { title: match.title, message: match.message };
+      }
+    }
+  }
+
+  return null;
+}
+
+function streamImportStatus(
+  supabase: SupabaseClient,
+  extractId: string,
+  userProfileId: string,
+  language: string,
+  initialStatus: ImportStatusResponse,
+  signal: AbortSignal,
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+      };
+
+      signal.addEventListener("abort", () => {
+        closed = true;
+      });
+
+      send("status", initialStatus);
+      if (initialStatus.is_terminal) {
+        close();
+        return;
+      }
+
+      const startedAt = Date.now();
+      let lastSignature = statusSignature(initialStatus);
+      let lastWriteAt = Date.now();
+
+      try {
+        while (!closed) {
+          await delay(STREAM_POLL_INTERVAL_MS);
+          if (closed) break;
+
+          if (Date.now() - startedAt >= STREAM_MAX_DURATION_MS) {
+            send("timeout", { extract_id: extractId });
+            break;
+          }
+
+          const row = await fetchOwnedImport(
+            supabase,
+            extractId,
+            userProfileId,
+          );
+          if (!row) {
+            send("error", {
+              error: "Import not found",
+              error_code: "IMPORT_NOT_FOUND",
+            });
+            break;
+          }
+
+          const signature = statusSignature(row);
+          if (signature !== lastSignature) {
+            const status = await buildImportStatus(supabase, row, language);
+            send("status", status);
+            lastSignature = signature;
+            lastWriteAt = Date.now();
+            if (status.is_terminal) break;
+          } else if (
+            Date.now() - lastWriteAt >= STREAM_KEEPALIVE_INTERVAL_MS
+          ) {
+            controller.enqueue(encoder.encode(": keepalive\n\n"));
+            lastWriteAt = Date.now();
+          }
+        }
+      } catch (error) {
+        console.error("[IMPORT STATUS] Stream failed:", error);
+        send("error", {
+          error: "Failed to fetch import status",
+          error_code: "INTERNAL_ERROR",
+        });
+      }
+
+      close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+function statusSignature(
+  input: Pick<ImportedContentRow, "status" | "updated_at" | "error_code">,
+): string {
+  return `${input.status ?? "PROCESSING"}|${input.updated_at ?? ""}|${
+    input.error_code ?? ""
+  }`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isUnauthorizedError(message: string): boolean {
+  return message.includes("Authorization") || message.includes("Invalid token");
+}
+
+function isClientError(message: string): boolean {
+  return message.includes("User profile not found");
+}
+
+function corsHeaders(): HeadersInit {
+  return {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, accept-language",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+  };
+}
+
+function jsonSuccess<T>(data: T, status = 200): Response {
+  const body: RestResponse<T> = {
+    success: true,
+    error: null,
+    error_code: null,
+    data,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function jsonError(
+  message: string,
+  status = 500,
+  error_code: string | null = null,
+): Response {
+  const body: RestResponse<null> = {
+    success: false,
+    error: message,
+    error_code,
+    data: null,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,600 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getAuthenticatedUserOrThrow } from "../utils/auth.ts";
+import {
+  isShareExpiryAllowed,
+  parseShareExpiryOption,
+  resolveShareExpiresAt,
+  SHARE_EXPIRY_PLAN_OPTIONS,
+  type SharePlan,
+} from "../utils/share-expiry.ts";
+import type { RestResponse } from "../dto/controller-response.ts";
+
+const SHARED_IMAGE_BUCKET = "shared-recipe-images";
+const DEFAULT_SHARE_BASE_URL = "https://kerisik.app/shared/recipe";
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 100;
+const DEFAULT_STATS_DAYS = 30;
+const MAX_STATS_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ShareStatus = "active" | "expired" | "revoked";
+type ShareListFilter = ShareStatus | "all";
+
+interface UserProfile {
+  id: string;
+  plan: SharePlan;
+}
+
+interface ShareRow {
+  id: string;
+  token: string;
+  recipe_payload: Record<string, unknown>;
+  image_path: string | null;
+  image_variant_paths: Record<string, string> | null;
+  item_image_paths: Array<Record<string, string> | null> | null;
+  share_type: "recipe" | "bundle";
+  pin_hash: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  created_at: string;
+}
+
+interface ShareSummary {
+  id: string;
+  token: string;
+  shareUrl: string;
+  title: string | null;
+  status: ShareStatus;
+  createdAt: string;
+  /** null when the link never expires. */
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  pinProtected: boolean;
+  shareType: "recipe" | "bundle";
+}
+
+interface ListSharesResponse {
+  shares: ShareSummary[];
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+interface ShareStatsResponse {
+  share: ShareSummary;
+  totalViews: number;
+  uniqueViewers: number;
+  /** One entry per UTC day in the window, oldest first, zero-filled. */
+  viewsPerDay: Array<{ date: string; views: number }>;
+}
+
+interface RevokeShareResponse {
+  token: string;
+  revokedAt: string;
+  imageDeleted: boolean;
+}
+
+interface ManageShareRequest {
+  action?: unknown;
+  token?: unknown;
+  expiresIn?: unknown;
+}
+
+/**
+ * Owner-side management of shared recipe links.
+ *
+ *   GET  /manage-recipe-shares[?status=active|expired|revoked|all&limit=&offset=]
+ *   GET  /manage-recipe-shares?token=<token>[&days=30]          per-share stats
+ *   POST /manage-recipe-shares { "action": "revoke", "token": "<token>" }
+ *   POST /manage-recipe-shares { "action": "extend", "token": "<token>", "expiresIn": "7d" }
+ *
+ * Shares are always scoped to the caller's user_profile; another owner's token
+ * behaves like an unknown one.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders() });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return jsonError("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+    const authUser = await getAuthenticatedUserOrThrow(supabase, req);
+    const userProfile = await getUserProfileOrThrow(supabase, authUser.id);
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const token = asTrimmedString(url.searchParams.get("token"));
+      return token
+        ? await getShareStats(supabase, userProfile, token, url)
+        : await listShares(supabase, userProfile, url);
+    }
+
+    const body = (await req.json().catch(() => null)) as
+      | ManageShareRequest
+      | null;
+    const action = asTrimmedString(body?.action);
+    const token = asTrimmedString(body?.token);
+    if (!token) {
+      return jsonError("token is required", 400, "MISSING_TOKEN");
+    }
+
+    switch (action) {
+      case "revoke":
+        return await revokeShare(supabase, userProfile, token);
+      case "extend":
+        return await extendShare(supabase, userProfile, token, body?.expiresIn);
+      default:
+        return jsonError(
+          "action must be one of revoke, extend",
+          400,
+          "INVALID_ACTION",
+        );
+    }
+  } catch (error) {
+    console.error("[MANAGE RECIPE SHARES] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const status = isUnauthorizedError(message)
+      ? 401
+      : isClientError(message)
+      ? 400
+      : 500;
+    const errorCode = isUnauthorizedError(message)
+      ? "UNAUTHORIZED"
+      : isClientError(message)
+      ? "INVALID_REQUEST"
+      : "INTERNAL_ERROR";
+    return jsonError(message, status, errorCode);
+  }
+});
+
+async function listShares(
+  supabase: SupabaseClient,
+  userProfile: UserProfile,
+  url: URL,
+): Promise<Response> {
+  const filter = parseListFilter(url.searchParams.get("status"));
+  if (!filter) {
+    return jsonError(
+      "status must be one of active, expired, revoked, all",
+      400,
+      "INVALID_STATUS_FILTER",
+    );
+  }
+
+  const limit = parseBoundedInt(
+    url.searchParams.get("limit"),
+    DEFAULT_LIST_LIMIT,
+    1,
+    MAX_LIST_LIMIT,
+  );
+  const offset = parseBoundedInt(
+    url.searchParams.get("offset"),
+    0,
+    0,
+    Number.MAX_SAFE_INTEGER,
+  );
+  const nowIso = new Date().toISOString();
+
+  let query = supabase
+    .from("shared_recipe_links")
+    .select(
+      "id, token, recipe_payload, image_path, image_variant_paths, item_image_paths, share_type, pin_hash, expires_at, revoked_at, view_count, created_at",
+    )
+    .eq("owner_user_profile_id", userProfile.id);
+
+  if (filter === "active") {
+    query = query
+      .is("revoked_at", null)
+      .or(`expires_at.is.null,expires_at.gt.${nowIso}`);
+  } else if (filter === "expired") {
+    query = query.is("revoked_at", null).lte("expires_at", nowIso);
+  } else if (filter === "revoked") {
+    query = query.not("revoked_at", "is", null);
+  }
+
+  // Fetch one extra row to report hasMore without a count query.
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(offset, offset + limit);
+
+  if (error) {
+    console.error("[MANAGE RECIPE SHARES] List failed:", error);
+    return jsonError("Failed to list shares", 500, "LIST_SHARES_FAILED");
+  }
+
+  const rows = (data ?? []) as ShareRow[];
+  return jsonSuccess<ListSharesResponse>({
+    shares: rows.slice(0, limit).map(toShareSummary),
+    limit,
+    offset,
+    hasMore: rows.length > limit,
+  });
+}
+
+async function getShareStats(
+  supabase: SupabaseClient,
+  userProfile: UserProfile,
+  token: string,
+  url: URL,
+): Promise<Response> {
+  const row = await fetchOwnedShare(supabase, userProfile, token);
+  if (!row) {
+    return jsonError("Share not found", 404, "SHARE_NOT_FOUND");
+  }
+
+  const days = parseBoundedInt(
+    url.searchParams.get("days"),
+    DEFAULT_STATS_DAYS,
+    1,
+    MAX_STATS_DAYS,
+  );
+  const windowStart = new Date(Date.now() - (days - 1) * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+  const [viewersResult, dailyResult] = await Promise.all([
+    supabase
+      .from("shared_recipe_link_views")
+      .select("id", { count: "exact", head: true })
+      .eq("share_id", row.id),
+    supabase
+      .from("shared_recipe_link_daily_views")
+      .select("view_date, view_count")
+      .eq("share_id", row.id)
+      .gte("view_date", windowStart)
+      .order("view_date", { ascending: true }),
+  ]);
+
+  if (viewersResult.error || dailyResult.error) {
+    console.error("[MANAGE RECIPE SHARES] Stats query failed:", {
+      viewersError: viewersResult.error,
+      dailyError: dailyResult.error,
+    });
+    return jsonError("Failed to load share stats", 500, "SHARE_STATS_FAILED");
+  }
+
+  const dailyCounts = new Map<string, number>();
+  for (const daily of dailyResult.data ?? []) {
+    dailyCounts.set(daily.view_date as string, daily.view_count as number);
+  }
+
+  const viewsPerDay = Array.from({ length: days }, (_, index) => {
+    const date = new Date(Date.parse(windowStart) + index * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    return { date, views: dailyCounts.get(date) ?? 0 };
+  });
+
+  return jsonSuccess<ShareStatsResponse>({
+    share: toShareSummary(row),
+    totalViews: row.view_count,
+    uniqueViewers: viewersResult.count ?? 0,
+    viewsPerDay,
+  });
+}
+
+async function revokeShare(
+  supabase: SupabaseClient,
+  userProfile: UserProfile,
+  token: string,
+): Promise<Response> {
+  const row = await fetchOwnedShare(supabase, userProfile, token);
+  if (!row) {
+    return jsonError("Share not found", 404, "SHARE_NOT_FOUND");
+  }
+
+  if (row.revoked_at) {
+    return jsonError("Share is already revoked", 409, "SHARE_ALREADY_REVOKED");
+  }
+
+  const revokedAt = new Date().toISOString();
+  const { error: revokeError } = await supabase
+    .from("shared_recipe_links")
+    .update({ revoked_at: revokedAt })
+    .eq("id", row.id)
+    .is("revoked_at", null);
+
+  if (revokeError) {
+    console.error("[MANAGE RECIPE SHARES] Revoke failed:", revokeError);
+    return jsonError("Failed to revoke share", 500, "REVOKE_SHARE_FAILED");
+  }
+
+  // The link is already dead; a failed image delete is retried by the cleanup job.
+  let imageDeleted = false;
+  const imagePaths = [
+    row.image_path,
+    ...Object.values(row.image_variant_paths ?? {}),
+    ...(row.item_image_paths ?? []).flatMap((item) =>
+      Object.values(item ?? {})
+    ),
+  ].filter((path): path is string => Boolean(path));
+  if (imagePaths.length > 0) {
+    const { error: removeError } = await supabase.storage
+      .from(SHARED_IMAGE_BUCKET)
+      .remove(imagePaths);
+
+    if (removeError) {
+      console.error(
+        "[MANAGE RECIPE SHARES] Failed to delete shared image:",
+        removeError,
+      );
+    } else {
+      imageDeleted = true;
+      await supabase
+        .from("shared_recipe_links")
+        .update({
+          image_path: null,
+          image_variant_paths: {},
+          item_image_paths: [],
+          images_purged_at: new Date().toISOString(),
+        })
+        .eq("id", row.id);
+    }
+  }
+
+  return jsonSuccess<RevokeShareResponse>({
+    token: row.token,
+    revokedAt,
+    imageDeleted,
+  });
+}
+
+async function extendShare(
+  supabase: SupabaseClient,
+  userProfile: UserProfile,
+  token: string,
+  expiresInInput: unknown,
+): Promise<Response> {
+  const expiresIn = parseShareExpiryOption(expiresInInput);
+  if (!expiresIn) {
+    return jsonError(
+      "expiresIn must be one of 1d, 7d, 30d, never",
+      400,
+      "INVALID_SHARE_EXPIRY",
+    );
+  }
+
+  if (!isShareExpiryAllowed(expiresIn, userProfile.plan)) {
+    return jsonError(
+      `expiresIn ${expiresIn} is not available on the ${userProfile.plan} plan (allowed: ${
+        SHARE_EXPIRY_PLAN_OPTIONS[userProfile.plan].join(", ")
+      })`,
+      403,
+      "SHARE_EXPIRY_NOT_ALLOWED",
+    );
+  }
+
+  const row = await fetchOwnedShare(supabase, userProfile, token);
+  if (!row) {
+    return jsonError("Share not found", 404, "SHARE_NOT_FOUND");
+  }
+
+  if (row.revoked_at) {
+    return jsonError(
+      "Revoked shares cannot be extended",
+      409,
+      "SHARE_REVOKED",
+    );
+  }
+
+  // New expiry counts from now and must not be earlier than the current one.
+  const expiresAt = resolveShareExpiresAt(expiresIn);
+  if (
+    row.expires_at === null ||
+    (expiresAt !== null && Date.parse(expiresAt) <= Date.parse(row.expires_at))
+  ) {
+    return jsonError(
+      "expiresIn would not extend this share",
+      409,
+      "SHARE_EXPIRY_NOT_EXTENDED",
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("shared_recipe_links")
+    .update({ expires_at: expiresAt })
+    .eq("id", row.id)
+    .is("revoked_at", null)
+    .select(
+      "id, token, recipe_payload, image_path, image_variant_paths, item_image_paths, share_type, pin_hash, expires_at, revoked_at, view_count, created_at",
+    )
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error("[MANAGE RECIPE SHARES] Extend failed:", error);
+    return jsonError("Failed to extend share", 500, "EXTEND_SHARE_FAILED");
+  }
+
+  return jsonSuccess<ShareSummary>(toShareSummary(data as ShareRow));
+}
+
+async function fetchOwnedShare(
+  supabase: SupabaseClient,
+  userProfile: UserProfile,
+  token: string,
+): Promise<ShareRow | null> {
+  const { data, error } = await supabase
+    .from("shared_recipe_links")
+    .select(
+      "id, token, recipe_payload, image_path, image_variant_paths, item_image_paths, share_type, pin_hash, expires_at, revoked_at, view_count, created_at",
+    )
+    .eq("token", token)
+    .eq("owner_user_profile_id", userProfile.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[MANAGE RECIPE SHARES] Share lookup failed:", error);
+    throw new Error("Failed to load share");
+  }
+
+  return (data as ShareRow | null) ?? null;
+}
+
+function toShareSummary(row: ShareRow): ShareSummary {
+  return {
+    id: row.id,
+    token: row.token,
+    shareUrl: buildShareUrl(row.token),
+    title: asTrimmedString(row.recipe_payload?.title),
+    status: getShareStatus(row),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    viewCount: row.view_count,
+    pinProtected: row.pin_hash !== null,
+    shareType: row.share_type,
+  };
+}
+
+function getShareStatus(row: ShareRow): ShareStatus {
+  if (row.revoked_at) {
+    return "revoked";
+  }
+
+  if (row.expires_at === null) {
+    return "active";
+  }
+
+  const expiresAtMs = Date.parse(row.expires_at);
+  return Number.isNaN(expiresAtMs) || expiresAtMs <= Date.now()
+    ? "expired"
+    : "active";
+}
+
+function parseListFilter(value: string | null): ShareListFilter | null {
+  const normalized = value?.trim().toLowerCase() || "all";
+  return ["active", "expired", "revoked", "all"].includes(normalized)
+    ? normalized as ShareListFilter
+    : null;
+}
+
+function parseBoundedInt(
+  value: string | null,
+  fallback: number,
+  min: number,
+  max: number,
+): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+}
+
+function createSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+async function getUserProfileOrThrow(
+  supabase: SupabaseClient,
+  authUserId: string,
+): Promise<UserProfile> {
+  const { data, error } = await supabase
+    .from("user_profile")
+    .select("id, is_pro")
+    .eq("auth_id", authUserId)
+    .single();
+
+  if (error || !data?.id) {
+    throw new Error("User profile not found");
+  }
+
+  return {
+    id: data.id as string,
+    plan: data.is_pro === true ? "pro" : "free",
+  };
+}
+
+function buildShareUrl(token: string): string {
+  const baseUrl =
+    (Deno.env.get("RECIPE_SHARE_BASE_URL") ?? DEFAULT_SHARE_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+  return `${baseUrl}/${token}`;
+}
+
+function asTrimmedString(input: unknown): string | null {
+  if (typeof input !== "string") {
+    return null;
+  }
+
+  const trimmed = input.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function isUnauthorizedError(message: string): boolean {
+  return message.includes("Authorization") || message.includes("Invalid token");
+}
+
+function isClientError(message: string): boolean {
+  return message.includes("User profile not found");
+}
+
+function corsHeaders(): HeadersInit {
+  return {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  };
+}
+
+function jsonSuccess<T>(data: T, status = 200): Response {
+  const body: RestResponse<T> = {
+    success: true,
+    error: null,
+    error_code: null,
+    data,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function jsonError(
+  message: string,
+  status = 500,
+  error_code: string | null = null,
+): Response {
+  const body: RestResponse<null> = {
+    success: false,
+    error: message,
+    error_code,
+    data: null,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,268 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getAuthenticatedUserOrThrow } from "../utils/auth.ts";
+import {
+  buildBackendUnavailableBody,
+  buildImportBackendHeaders,
+  callImportBackend,
+  getImportBackendUrl,
+} from "../utils/import-backend.ts";
+import { withIdempotency } from "../utils/idempotency.ts";
+import type { RestResponse } from "../dto/controller-response.ts";
+
+// imported_content.retry_count is incremented by FastAPI on every failed attempt.
+const MAX_IMPORT_RETRIES = 3;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface RetryImportRequest {
+  imported_content_id?: unknown;
+  extract_id?: unknown;
+  notification_device_id?: unknown;
+}
+
+/**
+ * Re-run a FAILED import owned by the caller.
+ *
+ *   POST /retry-import { "imported_content_id": "<uuid>", "notification_device_id"?: "<uuid>" }
+ *
+ * Ownership, status and the retry limit are checked here; FastAPI resets the
+ * row to PROCESSING and bumps `notification_generation`, as it owns all
+ * imported_content writes.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders() });
+  }
+
+  if (req.method !== "POST") {
+    return jsonError("Method not allowed", 405, "METHOD_NOT_ALLOWED");
+  }
+
+  const requestId = crypto.randomUUID();
+  const logPrefix = `[RETRY IMPORT][${requestId}]`;
+
+  try {
+    const payload = (await req.json().catch(() => null)) as
+      | RetryImportRequest
+      | null;
+    if (!payload || typeof payload !== "object") {
+      return jsonError("Invalid JSON body", 400, "INVALID_REQUEST");
+    }
+
+    const importedContentId = asTrimmedString(payload.imported_content_id) ??
+      asTrimmedString(payload.extract_id);
+    if (!importedContentId) {
+      return jsonError(
+        "imported_content_id is required",
+        400,
+        "MISSING_IMPORTED_CONTENT_ID",
+      );
+    }
+    if (!UUID_PATTERN.test(importedContentId)) {
+      return jsonError(
+        "imported_content_id must be a UUID",
+        400,
+        "INVALID_IMPORTED_CONTENT_ID",
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const authUser = await getAuthenticatedUserOrThrow(supabase, req);
+    const userProfileId = await getUserProfileIdOrThrow(supabase, authUser.id);
+
+    const runRetry = async (): Promise<Response> => {
+      const { data: row, error } = await supabase
+        .from("imported_content")
+        .select("id, status, retry_count")
+        .eq("id", importedContentId)
+        .eq("user_id", userProfileId)
+        .maybeSingle();
+
+      if (error) {
+        console.error(`${logPrefix} Query failed:`, error);
+        return jsonError(
+          "Failed to fetch imported content",
+          500,
+          "FETCH_IMPORTED_CONTENT_FAILED",
+        );
+      }
+
+      if (!row) {
+        return jsonError("Import not found", 404, "IMPORT_NOT_FOUND");
+      }
+
+      if (row.status !== "FAILED") {
+        return jsonError(
+          "Only failed imports can be retried",
+          409,
+          "IMPORT_NOT_RETRYABLE",
+        );
+      }
+
+      const retryCount = (row.retry_count as number | null) ?? 0;
+      if (retryCount >= MAX_IMPORT_RETRIES) {
+        console.warn(`${logPrefix} Retry limit reached`, {
+          importedContentId,
+          retryCount,
+        });
+        return jsonError(
+          `This import has already been retried ${MAX_IMPORT_RETRIES} times`,
+          409,
+          "RETRY_LIMIT_REACHED",
+        );
+      }
+
+      console.log(`${logPrefix} Forwarding retry to backend`, {
+        importedContentId,
+        retryCount,
+      });
+      const result = await callImportBackend(
+        getImportBackendUrl("/api/v2/retry-import"),
+        {
+          method: "POST",
+          headers: buildImportBackendHeaders(requestId),
+          body: JSON.stringify({
+            imported_content_id: importedContentId,
+            request_id: requestId,
+            notification_device_id:
+              asTrimmedString(payload.notification_device_id) ?? null,
+            max_retries: MAX_IMPORT_RETRIES,
+          }),
+        },
+        logPrefix,
+      );
+
+      if (!result.ok) {
+        return new Response(
+          JSON.stringify(buildBackendUnavailableBody(result, requestId)),
+          {
+            status: 503,
+            headers: {
+              ...corsHeaders(),
+              "Content-Type": "application/json",
+              "Retry-After": String(result.retryAfterSeconds),
+              "X-Request-ID": requestId,
+            },
+          },
+        );
+      }
+
+      return new Response(await result.response.text(), {
+        status: result.response.status,
+        headers: {
+          ...corsHeaders(),
+          "Content-Type": "application/json",
+          "X-Request-ID": requestId,
+        },
+      });
+    };
+
+    return await withIdempotency(supabase, req, {
+      scope: "retry-import",
+      userProfileId,
+      requestBody: payload,
+      logPrefix,
+      errorResponse: (message, status, errorCode, headers) =>
+        jsonError(message, status, errorCode, headers),
+    }, runRetry);
+  } catch (error) {
+    console.error(`${logPrefix} Error:`, error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const status = isUnauthorizedError(message)
+      ? 401
+      : isClientError(message)
+      ? 400
+      : 500;
+    const errorCode = isUnauthorizedError(message)
+      ? "UNAUTHORIZED"
+      : isClientError(message)
+      ? "INVALID_REQUEST"
+      : "INTERNAL_ERROR";
+    return jsonError(message, status, errorCode);
+  }
+});
+
+function createSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+async function getUserProfileIdOrThrow(
+  supabase: SupabaseClient,
+  authUserId: string,
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("user_profile")
+    .select("id")
+    .eq("auth_id", authUserId)
+    .single();
+
+  if (error || !data?.id) {
+    throw new Error("User profile not found");
+  }
+
+  return data.id as string;
+}
+
+function asTrimmedString(input: unknown): string | null {
+  if (typeof input !== "string") {
+    return null;
+  }
+
+  const trimmed = input.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function isUnauthorizedError(message: string): boolean {
+  return message.includes("Authorization") || message.includes("Invalid token");
+}
+
+function isClientError(message: string): boolean {
+  return message.includes("User profile not found");
+}
+
+function corsHeaders(): HeadersInit {
+  return {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, idempotency-key",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Expose-Headers":
+      "Idempotent-Replayed, Retry-After, X-Request-ID",
+  };
+}
+
+function jsonError(
+  message: string,
+  status = 500,
+  error_code: string | null = null,
+  extraHeaders: HeadersInit = {},
+): Response {
+  const body: RestResponse<null> = {
+    success: false,
+    error: message,
+    error_code,
+    data: null,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(),
+      ...extraHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -47,6 +47,15 @@ export const getAuthenticatedUserOrThrow = async (
     }
 
     const token = authHeader.replace("Bearer ", "");
+    return await getUserFromAccessTokenOrThrow(supabase, token);
+};
+
+// For callers that cannot send headers (e.g. browser EventSource), where the
+// access token arrives some other way.
+export const getUserFromAccessTokenOrThrow = async (
+    supabase: SupabaseClient,
+    token: string,
+): Promise<User> => {
     const { data, error: userError } = await supabase.auth.getUser(
         token,
     );
@@ -0,0 +1,24 @@
+// Bounded fan-out for per-item async work (backend calls, outbound fetches).
+
+/** `worker` over `items` with at most `concurrency` calls in flight; results keep input order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (next < items.length) {
+        const current = next++;
+        results[current] = await worker(items[current], current);
+      }
+    },
+  );
+
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,107 @@
+// ETag and Cache-Control handling for public GET endpoints.
+//
+// The ETag is a strong validator over the response body, so it changes
+// whenever anything the client would see changes. A matching If-None-Match
+// gets a bodiless 304 with the same validators. Only 200 responses get an
+// ETag; other statuses just carry the policy's Cache-Control. Callers do
+// their side effects (view counting) before handing the response over, so
+// those still happen on a 304.
+
+export interface HttpCachePolicy {
+  /** Full Cache-Control value, e.g. from `buildCacheControl`. */
+  cacheControl: string;
+  /** Request headers the representation depends on. */
+  vary?: string[];
+  /**
+   * Removes parts of the body that change on every request without changing
+   * what it means (e.g. signature tokens on signed URLs) before hashing.
+   */
+  etagSource?: (body: string) => string;
+}
+
+export const NO_STORE_CACHE_CONTROL = "no-store";
+export const PRIVATE_NO_STORE_CACHE_CONTROL = "private, no-store";
+
+// Headers that describe the body and so do not belong on a 304.
+const BODY_HEADERS = ["content-type", "content-length"];
+
+export function buildCacheControl(options: {
+  visibility: "public" | "private";
+  maxAgeSeconds: number;
+  staleWhileRevalidateSeconds?: number;
+}): string {
+  const maxAge = Math.max(Math.floor(options.maxAgeSeconds), 0);
+  const staleWhileRevalidate = Math.max(
+    Math.floor(options.staleWhileRevalidateSeconds ?? 0),
+    0,
+  );
+
+  return [
+    options.visibility,
+    `max-age=${maxAge}`,
+    ...(staleWhileRevalidate > 0
+      ? [`stale-while-revalidate=${staleWhileRevalidate}`]
+      : []),
+  ].join(", ");
+}
+
+/**
+ * Adds the policy's headers to `response`; for a 200, also an ETag, and a 304
+ * instead when the request's If-None-Match matches it.
+ */
+export async function applyHttpCache(
+  req: Request,
+  response: Response,
+  policy: HttpCachePolicy,
+): Promise<Response> {
+  const headers = new Headers(response.headers);
+  headers.set("Cache-Control", policy.cacheControl);
+  if (policy.vary && policy.vary.length > 0) {
+    headers.set("Vary", policy.vary.join(", "));
+  }
+
+  const cacheable = response.status === 200 &&
+    policy.cacheControl !== NO_STORE_CACHE_CONTROL &&
+    policy.cacheControl !== PRIVATE_NO_STORE_CACHE_CONTROL;
+  if (!cacheable) {
+    return new Response(response.body, { status: response.status, headers });
+  }
+
+  const body = await response.text();
+  const etag = await computeStrongEtag(
+    policy.etagSource ? policy.etagSource(body) : body,
+  );
+  headers.set("ETag", etag);
+
+  if (ifNoneMatchMatches(req.headers.get("if-none-match"), etag)) {
+    for (const name of BODY_HEADERS) {
+      headers.delete(name);
+    }
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, { status: response.status, headers });
+}
+
+async function computeStrongEtag(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `"${hex.slice(0, 32)}"`;
+}
+
+/** If-None-Match uses weak comparison, so a `W/` prefix still matches. */
+function ifNoneMatchMatches(header: string | null, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+
+  return header.split(",").some((candidate) => {
+    const trimmed = candidate.trim();
+    return trimmed === "*" || trimmed.replace(/^W\//, "") === etag;
+  });
+}
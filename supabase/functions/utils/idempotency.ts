@@ -0,0 +1,204 @@
+// Idempotency-Key support for POST edge functions.
+//
+// The first response for (user, scope, key) is stored for 24 hours and
+// replayed for repeats; a repeat with a different body is rejected with 409.
+// Retryable outcomes (thrown errors, 429, 5xx) release the key instead so the
+// client can try again. Storage failures never block the request itself.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export type IdempotencyScope =
+  | "import-recipe"
+  | "import-recipe-image"
+  | "create-recipe-share"
+  | "retry-import";
+
+export interface IdempotencyOptions {
+  scope: IdempotencyScope;
+  userProfileId: string;
+  /** Parsed request body; hashed with sorted keys to detect a different payload. */
+  requestBody: unknown;
+  logPrefix: string;
+  /** Builds an error response in the calling function's envelope. */
+  errorResponse: (
+    message: string,
+    status: number,
+    errorCode: string,
+    extraHeaders?: Record<string, string>,
+  ) => Response;
+}
+
+interface ClaimRow {
+  outcome: "claimed" | "replay" | "mismatch" | "in_progress";
+  record_id: string;
+  response_status: number | null;
+  response_headers: Record<string, string> | null;
+  response_body: string | null;
+}
+
+/** Run `handler` at most once per Idempotency-Key; requests without the header run as usual. */
+export async function withIdempotency(
+  supabase: SupabaseClient,
+  req: Request,
+  options: IdempotencyOptions,
+  handler: () => Promise<Response>,
+): Promise<Response> {
+  const key = req.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+  if (!key) {
+    return await handler();
+  }
+
+  const { logPrefix } = options;
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return options.errorResponse(
+      "Idempotency-Key must be 1-255 printable ASCII characters",
+      400,
+      "INVALID_IDEMPOTENCY_KEY",
+    );
+  }
+
+  const requestHash = await sha256Hex(stableStringify(options.requestBody));
+  const { data, error } = await supabase.rpc("claim_idempotency_key", {
+    p_user_profile_id: options.userProfileId,
+    p_scope: options.scope,
+    p_idempotency_key: key,
+    p_request_hash: requestHash,
+  });
+
+  const claim = Array.isArray(data) ? (data[0] as ClaimRow | undefined) : undefined;
+  if (error || !claim) {
+    console.error(
+      `${logPrefix} withIdempotency: Claim failed, continuing without idempotency`,
+      error,
+    );
+    return await handler();
+  }
+
+  console.log(`${logPrefix} withIdempotency: Claim outcome`, {
+    outcome: claim.outcome,
+    recordId: claim.record_id,
+  });
+
+  if (claim.outcome === "replay") {
+    return new Response(claim.response_body, {
+      status: claim.response_status ?? 200,
+      headers: {
+        ...(claim.response_headers ?? {}),
+        "Idempotent-Replayed": "true",
+      },
+    });
+  }
+
+  if (claim.outcome === "mismatch") {
+    return options.errorResponse(
+      "Idempotency-Key was already used with a different request body",
+      409,
+      "IDEMPOTENCY_KEY_REUSED",
+    );
+  }
+
+  if (claim.outcome === "in_progress") {
+    return options.errorResponse(
+      "A request with this Idempotency-Key is still in progress",
+      409,
+      "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+      { "Retry-After": "1" },
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (handlerError) {
+    await releaseIdempotencyKey(supabase, claim.record_id, logPrefix);
+    throw handlerError;
+  }
+
+  if (response.status === 429 || response.status >= 500) {
+    await releaseIdempotencyKey(supabase, claim.record_id, logPrefix);
+    return response;
+  }
+
+  return await storeIdempotentResponse(
+    supabase,
+    claim.record_id,
+    response,
+    logPrefix,
+  );
+}
+
+async function storeIdempotentResponse(
+  supabase: SupabaseClient,
+  recordId: string,
+  response: Response,
+  logPrefix: string,
+): Promise<Response> {
+  const body = await response.text();
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .update({
+      status: "completed",
+      response_status: response.status,
+      response_headers: headers,
+      response_body: body,
+    })
+    .eq("id", recordId);
+
+  if (error) {
+    console.error(
+      `${logPrefix} withIdempotency: Failed to store response`,
+      error,
+    );
+    await releaseIdempotencyKey(supabase, recordId, logPrefix);
+  }
+
+  return new Response(body, { status: response.status, headers });
+}
+
+async function releaseIdempotencyKey(
+  supabase: SupabaseClient,
+  recordId: string,
+  logPrefix: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .delete()
+    .eq("id", recordId);
+
+  if (error) {
+    console.error(`${logPrefix} withIdempotency: Failed to release key`, error);
+  }
+}
+
+/** JSON with object keys sorted, so equal values always serialise the same way. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, entry]) => `${JSON.stringify(name)}:${stableStringify(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const data = new TextEncoder().encode(value);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
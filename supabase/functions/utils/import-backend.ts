@@ -0,0 +1,309 @@
+// Resilient client for proxying import requests to the FastAPI backend, which
+// owns all imported_content writes.
+//
+// Each attempt has its own timeout. Transient failures (network errors,
+// 502/503) are retried with exponential backoff and full jitter, honouring
+// Retry-After, within an overall deadline. A timeout or 504 means the backend
+// may still be running the request, so it is only retried for callers that
+// set retryTimeouts (see BackendCallOptions). A circuit breaker opens
+// after repeated transient failures so callers fail fast with
+// BACKEND_UNAVAILABLE instead of making users wait through every retry.
+//
+// Breaker state is per edge-runtime isolate: each warm worker learns about an
+// outage on its own, which is enough to stop retry storms without shared state.
+
+const DEFAULT_BACKEND_BASE_URL = "http://host.docker.internal:8000";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 10000;
+const DEFAULT_DEADLINE_MS = 25000;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+
+const BREAKER_FAILURE_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30000;
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const GATEWAY_TIMEOUT_STATUS = 504;
+
+export const BACKEND_UNAVAILABLE_ERROR_CODE = "BACKEND_UNAVAILABLE";
+
+// Mirrors the BACKEND_UNAVAILABLE rows in public.error_messages; served from
+// code because this path runs exactly when dependencies are failing.
+export const BACKEND_UNAVAILABLE_DISPLAY = {
+  EN: {
+    title: "Import temporarily unavailable",
+    message:
+      "Our recipe importer is having trouble right now. Please try again in a minute.",
+  },
+  BM: {
+    title: "Import tidak tersedia buat sementara",
+    message:
+      "Pengimport resepi kami sedang menghadapi masalah. Sila cuba lagi sebentar lagi.",
+  },
+};
+
+export interface BackendCallOptions {
+  maxAttempts?: number;
+  attemptTimeoutMs?: number;
+  deadlineMs?: number;
+  /**
+   * Retry after a per-attempt timeout or a 504. Off by default: the timed-out
+   * request may still be running, and a second POST would start a second
+   * job. Set it only for endpoints that are idempotent, or that FastAPI
+   * deduplicates on X-Request-ID (a repeated ID returns the first request's
+   * result instead of running it again). Every attempt sends the same ID.
+   */
+  retryTimeouts?: boolean;
+}
+
+export type BackendUnavailableReason =
+  | "CIRCUIT_OPEN"
+  | "TIMEOUT"
+  | "NETWORK_ERROR"
+  | "UPSTREAM_UNAVAILABLE";
+
+export type BackendCallResult =
+  | { ok: true; response: Response; attempts: number }
+  | {
+    ok: false;
+    errorCode: typeof BACKEND_UNAVAILABLE_ERROR_CODE;
+    reason: BackendUnavailableReason;
+    message: string;
+    attempts: number;
+    /** Suggested client wait before trying again. */
+    retryAfterSeconds: number;
+  };
+
+type BreakerState = "closed" | "open" | "half_open";
+
+const breaker = {
+  state: "closed" as BreakerState,
+  consecutiveFailures: 0,
+  openedAt: 0,
+  halfOpenTrialInFlight: false,
+};
+
+export function getImportBackendUrl(path: string): string {
+  const baseUrl = Deno.env.get("MS_LLM_BASE_URL") ?? DEFAULT_BACKEND_BASE_URL;
+  return `${baseUrl}${path}`;
+}
+
+export function buildImportBackendHeaders(
+  requestId: string,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Request-ID": requestId,
+  };
+  const apiKey = Deno.env.get("MS_LLM_API_KEY");
+  if (apiKey) {
+    headers["x-api-key"] = apiKey;
+  }
+  return headers;
+}
+
+/**
+ * POST-style call to the backend with retries and the circuit breaker.
+ * Non-retryable responses (including 4xx and plain 500) are returned as-is.
+ */
+export async function callImportBackend(
+  url: string,
+  init: RequestInit,
+  logPrefix: string,
+  options: BackendCallOptions = {},
+): Promise<BackendCallResult> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const attemptTimeoutMs = options.attemptTimeoutMs ??
+    DEFAULT_ATTEMPT_TIMEOUT_MS;
+  const deadline = Date.now() + (options.deadlineMs ?? DEFAULT_DEADLINE_MS);
+
+  if (!acquireBreakerPermit()) {
+    const retryAfterSeconds = Math.max(
+      Math.ceil((breaker.openedAt + BREAKER_COOLDOWN_MS - Date.now()) / 1000),
+      1,
+    );
+    console.warn(`${logPrefix} callImportBackend: Circuit open, failing fast`, {
+      url,
+      retryAfterSeconds,
+    });
+    return {
+      ok: false,
+      errorCode: BACKEND_UNAVAILABLE_ERROR_CODE,
+      reason: "CIRCUIT_OPEN",
+      message: "Import backend is temporarily unavailable",
+      attempts: 0,
+      retryAfterSeconds,
+    };
+  }
+
+  console.log(`${logPrefix} callImportBackend: Starting`, {
+    url,
+    maxAttempts,
+    attemptTimeoutMs,
+    method: init.method,
+    breakerState: breaker.state,
+  });
+
+  let reason: BackendUnavailableReason = "NETWORK_ERROR";
+  let message = "Import backend is temporarily unavailable";
+  let retryAfterSeconds = Math.ceil(BREAKER_COOLDOWN_MS / 1000);
+  let attempt = 0;
+
+  while (attempt < maxAttempts) {
+    attempt += 1;
+    const remainingMs = deadline - Date.now();
+    const timeoutMs = Math.min(attemptTimeoutMs, remainingMs);
+    if (timeoutMs <= 0) {
+      reason = "TIMEOUT";
+      break;
+    }
+
+    let retryAfterMs: number | null = null;
+    try {
+      console.log(
+        `${logPrefix} callImportBackend: Attempt ${attempt}/${maxAttempts} (timeout ${timeoutMs}ms)`,
+      );
+      const res = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      console.log(
+        `${logPrefix} callImportBackend: Response received, status: ${res.status}`,
+      );
+
+      if (!RETRYABLE_STATUSES.has(res.status)) {
+        recordBreakerSuccess();
+        return { ok: true, response: res, attempts: attempt };
+      }
+
+      retryAfterMs = parseRetryAfterMs(res.headers.get("Retry-After"));
+      await res.body?.cancel();
+      reason = res.status === GATEWAY_TIMEOUT_STATUS
+        ? "TIMEOUT"
+        : "UPSTREAM_UNAVAILABLE";
+      message = `Import backend responded with ${res.status}`;
+      if (retryAfterMs !== null) {
+        retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+      }
+    } catch (err) {
+      const isTimeout = err instanceof DOMException &&
+        (err.name === "TimeoutError" || err.name === "AbortError");
+      reason = isTimeout ? "TIMEOUT" : "NETWORK_ERROR";
+      message = isTimeout
+        ? `Import backend did not respond within ${timeoutMs}ms`
+        : "Could not reach import backend";
+      console.error(
+        `${logPrefix} callImportBackend: ${reason} on attempt ${attempt}:`,
+        err,
+      );
+    }
+
+    if (attempt >= maxAttempts) break;
+
+    if (reason === "TIMEOUT" && !options.retryTimeouts) {
+      console.warn(
+        `${logPrefix} callImportBackend: Not retrying a timed-out request the backend may still be running`,
+      );
+      break;
+    }
+
+    const delayMs = Math.max(backoffDelayMs(attempt), retryAfterMs ?? 0);
+    if (Date.now() + delayMs >= deadline) {
+      console.warn(
+        `${logPrefix} callImportBackend: Next retry (${delayMs}ms) would pass the deadline, giving up`,
+      );
+      break;
+    }
+
+    console.warn(
+      `${logPrefix} callImportBackend: Retrying in ${delayMs}ms (${attempt}/${maxAttempts})`,
+    );
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  recordBreakerFailure(logPrefix);
+  console.error(`${logPrefix} callImportBackend: Giving up`, {
+    reason,
+    attempts: attempt,
+    breakerState: breaker.state,
+  });
+  return {
+    ok: false,
+    errorCode: BACKEND_UNAVAILABLE_ERROR_CODE,
+    reason,
+    message,
+    attempts: attempt,
+    retryAfterSeconds,
+  };
+}
+
+/** Response body for a BACKEND_UNAVAILABLE result, matching the import error envelope. */
+export function buildBackendUnavailableBody(
+  result: Extract<BackendCallResult, { ok: false }>,
+  requestId: string | null,
+): Record<string, unknown> {
+  return {
+    success: false,
+    error: result.message,
+    error_code: result.errorCode,
+    error_display: BACKEND_UNAVAILABLE_DISPLAY,
+    request_id: requestId,
+    data: null,
+  };
+}
+
+function backoffDelayMs(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function parseRetryAfterMs(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function acquireBreakerPermit(): boolean {
+  if (breaker.state === "closed") return true;
+
+  if (breaker.state === "open") {
+    if (Date.now() - breaker.openedAt < BREAKER_COOLDOWN_MS) return false;
+    breaker.state = "half_open";
+    breaker.halfOpenTrialInFlight = false;
+  }
+
+  // Half-open: let a single trial request through.
+  if (breaker.halfOpenTrialInFlight) return false;
+  breaker.halfOpenTrialInFlight = true;
+  return true;
+}
+
+function recordBreakerSuccess(): void {
+  breaker.state = "closed";
+  breaker.consecutiveFailures = 0;
+  breaker.halfOpenTrialInFlight = false;
+}
+
+function recordBreakerFailure(logPrefix: string): void {
+  breaker.consecutiveFailures += 1;
+  breaker.halfOpenTrialInFlight = false;
+
+  if (
+    breaker.state === "half_open" ||
+    breaker.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD
+  ) {
+    breaker.state = "open";
+    breaker.openedAt = Date.now();
+    console.warn(`${logPrefix} callImportBackend: Circuit opened`, {
+      consecutiveFailures: breaker.consecutiveFailures,
+      cooldownMs: BREAKER_COOLDOWN_MS,
+    });
+  }
+}
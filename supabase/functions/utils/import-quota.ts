@@ -0,0 +1,138 @@
+// Plan-aware import quota for the import edge functions.
+//
+// Limits live in `import_quota_plans` (one row per plan). Usage is the number
+// of imported_content rows the user created inside the rolling window, plus
+// imports still on their way to FastAPI. `reserve_import_quota` counts both
+// and reserves slots under a per-user lock, so parallel requests cannot all
+// pass the same count; the reservation is released once the backend call has
+// returned, by which point FastAPI has written the imported_content row.
+// A failed reservation blocks the import: the quota is not enforced only when
+// the plan has no active row.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const RESERVATION_TTL = "5 minutes";
+
+export const QUOTA_UNAVAILABLE_ERROR_CODE = "QUOTA_UNAVAILABLE";
+
+export type ImportQuotaPlan = "free" | "pro";
+
+export interface ImportQuotaStatus {
+  plan: ImportQuotaPlan;
+  limit: number;
+  /** Imports in the window plus open reservations, before this request. */
+  used: number;
+  /** Left after this request's reservation. */
+  remaining: number;
+  windowSeconds: number;
+  /** When the oldest counted import leaves the window. */
+  resetAt: string;
+  allowed: boolean;
+  /** Free users are asked to upgrade (402); Pro users are throttled (429). */
+  exceededStatus: 402 | 429;
+}
+
+export interface ImportQuotaReservation {
+  /** Null when nothing was reserved. */
+  id: string | null;
+  /** Slots reserved, at most the number requested. */
+  granted: number;
+  status: ImportQuotaStatus;
+}
+
+/** `reservation` is null when the caller's plan has no active quota. */
+export type ImportQuotaReservationResult =
+  | { ok: true; reservation: ImportQuotaReservation | null }
+  | { ok: false };
+
+export async function reserveImportQuota(
+  supabase: SupabaseClient,
+  userProfileId: string,
+  requested: number,
+  logPrefix: string,
+): Promise<ImportQuotaReservationResult> {
+  const { data, error } = await supabase.rpc("reserve_import_quota", {
+    p_user_profile_id: userProfileId,
+    p_requested: requested,
+    p_ttl: RESERVATION_TTL,
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error(
+      `${logPrefix} reserveImportQuota: reserve_import_quota failed`,
+      error,
+    );
+    return { ok: false };
+  }
+
+  const plan: ImportQuotaPlan = row.plan === "pro" ? "pro" : "free";
+  if (row.import_limit === null) {
+    console.warn(
+      `${logPrefix} reserveImportQuota: No active quota for plan, not enforcing`,
+      { plan },
+    );
+    return { ok: true, reservation: null };
+  }
+
+  const limit = row.import_limit as number;
+  const used = row.used as number;
+  const granted = row.granted as number;
+  const reservation: ImportQuotaReservation = {
+    id: (row.reservation_id as string | null) ?? null,
+    granted,
+    status: {
+      plan,
+      limit,
+      used,
+      remaining: Math.max(limit - used - granted, 0),
+      windowSeconds: row.window_seconds as number,
+      resetAt: new Date(row.reset_at as string).toISOString(),
+      allowed: granted > 0,
+      exceededStatus: plan === "pro" ? 429 : 402,
+    },
+  };
+  console.log(`${logPrefix} reserveImportQuota:`, reservation);
+  return { ok: true, reservation };
+}
+
+/** Drop a reservation once its backend calls have returned; an unreleased one expires. */
+export async function releaseImportQuota(
+  supabase: SupabaseClient,
+  reservation: ImportQuotaReservation | null,
+  logPrefix: string,
+): Promise<void> {
+  if (!reservation?.id) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("import_quota_reservations")
+    .delete()
+    .eq("id", reservation.id);
+  if (error) {
+    console.warn(
+      `${logPrefix} releaseImportQuota: Failed to release reservation`,
+      error,
+    );
+  }
+}
+
+export function buildImportQuotaHeaders(
+  status: ImportQuotaStatus,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-Import-Quota-Plan": status.plan,
+    "X-Import-Quota-Limit": String(status.limit),
+    "X-Import-Quota-Remaining": String(status.remaining),
+    "X-Import-Quota-Reset": status.resetAt,
+  };
+
+  if (!status.allowed) {
+    headers["Retry-After"] = String(
+      Math.max(Math.ceil((Date.parse(status.resetAt) - Date.now()) / 1000), 0),
+    );
+  }
+
+  return headers;
+}
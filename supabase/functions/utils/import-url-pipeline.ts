@@ -0,0 +1,216 @@
+// Shared URL import pipeline for the import edge functions:
+// short-link fix-ups → SSRF-safe redirect resolution → platform canonicalization,
+// plus the read-only duplicate pre-check against published browsable recipes.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { ImportDuplicateFoundResponse } from "../dto/controller-response.ts";
+import { type RedirectHop, resolveRedirectChain } from "./safe-fetch.ts";
+import {
+  canonicalizeUrl,
+  detectPlatform,
+  prepareForRedirect,
+  shouldResolveRedirects,
+} from "./url-canonicalizers/registry.ts";
+
+const DEFAULT_DUPLICATE_WINDOW_DAYS = 30;
+
+export interface NormalizedImportUrl {
+  submittedUrl: string;
+  resolvedUrl: string;
+  canonicalUrl: string;
+  platform: string;
+  redirectChain: RedirectHop[];
+  redirectErrorCode: string | null;
+}
+
+export type ImportUrlNormalization =
+  | { ok: true; value: NormalizedImportUrl }
+  | { ok: false; status: number; errorCode: string; message: string };
+
+/** Debug metadata forwarded to FastAPI alongside the canonical URL. */
+export interface ImportUrlDebugMetadata {
+  submitted_url: string;
+  redirect_chain: RedirectHop[];
+  redirect_error_code: string | null;
+}
+
+/**
+ * Resolve and canonicalize a submitted URL. Refused schemes/addresses and
+ * unparseable input are returned as errors; other resolution failures fall
+ * back to the furthest URL reached so the backend can record the failure.
+ */
+export async function normalizeImportUrl(
+  rawUrl: unknown,
+  logPrefix: string,
+): Promise<ImportUrlNormalization> {
+  const submittedUrl = typeof rawUrl === "string" ? rawUrl.trim() : "";
+  if (!isParseableHttpUrl(submittedUrl)) {
+    console.warn(`${logPrefix} normalizeImportUrl: Invalid URL`, rawUrl);
+    return {
+      ok: false,
+      status: 422,
+      errorCode: "INVALID_URL",
+      message: "url must be a valid http(s) URL",
+    };
+  }
+
+  const redirectUrl = prepareForRedirect(submittedUrl);
+  console.log(`${logPrefix} Redirect URL candidate:`, redirectUrl);
+  const shouldResolveRedirect = shouldResolveRedirects(redirectUrl);
+  console.log(`${logPrefix} Should resolve redirects:`, shouldResolveRedirect);
+
+  let resolvedUrl = redirectUrl;
+  let redirectChain: RedirectHop[] = [];
+  let redirectErrorCode: string | null = null;
+
+  if (shouldResolveRedirect) {
+    const resolution = await resolveRedirectChain(redirectUrl);
+    redirectChain = resolution.chain;
+    console.log(`${logPrefix} Redirect chain:`, redirectChain);
+    if (!resolution.ok) {
+      console.warn(`${logPrefix} Redirect resolution failed:`, {
+        errorCode: resolution.errorCode,
+        message: resolution.message,
+        finalUrl: resolution.finalUrl,
+      });
+      if (
+        resolution.errorCode === "UNSUPPORTED_SCHEME" ||
+        resolution.errorCode === "BLOCKED_ADDRESS"
+      ) {
+        return {
+          ok: false,
+          status: 422,
+          errorCode: "URL_NOT_ALLOWED",
+          message: resolution.message,
+        };
+      }
+      // Let the backend attempt the furthest URL we reached; it records the failure with the chain attached.
+      redirectErrorCode = resolution.errorCode;
+    }
+    resolvedUrl = resolution.finalUrl;
+  }
+
+  const canonicalUrl = await canonicalizeUrl(resolvedUrl);
+  const platform = detectPlatform(canonicalUrl);
+  console.log(`${logPrefix} Original URL:`, submittedUrl);
+  console.log(`${logPrefix} Resolved URL:`, resolvedUrl);
+  console.log(`${logPrefix} Sanitized URL:`, canonicalUrl);
+  console.log(`${logPrefix} Detected platform:`, platform);
+
+  return {
+    ok: true,
+    value: {
+      submittedUrl,
+      resolvedUrl,
+      canonicalUrl,
+      platform,
+      redirectChain,
+      redirectErrorCode,
+    },
+  };
+}
+
+export function buildImportDebugMetadata(
+  normalized: NormalizedImportUrl,
+): ImportUrlDebugMetadata {
+  return {
+    submitted_url: normalized.submittedUrl,
+    redirect_chain: normalized.redirectChain,
+    redirect_error_code: normalized.redirectErrorCode,
+  };
+}
+
+/**
+ * Read-only duplicate pre-check: a COMPLETED recipe import of the same canonical URL within the
+ * window that is also published as a browsable recipe. Lookup failures never block the import.
+ */
+export async function findPublishedDuplicate(
+  supabase: SupabaseClient,
+  sourceUrl: string,
+  logPrefix: string,
+): Promise<ImportDuplicateFoundResponse | null> {
+  const windowDays = getDuplicateWindowDays();
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000)
+    .toISOString();
+  console.log(`${logPrefix} findPublishedDuplicate: Checking`, {
+    sourceUrl,
+    windowDays,
+  });
+
+  const { data: imported, error: importedError } = await supabase
+    .from("imported_content")
+    .select("id")
+    .eq("source_url", sourceUrl)
+    .eq("status", "COMPLETED")
+    .eq("is_recipe_content", true)
+    .gte("updated_at", since)
+    .order("updated_at", { ascending: false })
+    .limit(5);
+
+  if (importedError) {
+    console.error(
+      `${logPrefix} findPublishedDuplicate: imported_content lookup failed`,
+      importedError,
+    );
+    return null;
+  }
+
+  const importedIds = (imported ?? []).map((row) => row.id as string);
+  if (importedIds.length === 0) {
+    console.log(
+      `${logPrefix} findPublishedDuplicate: No recent completed import`,
+    );
+    return null;
+  }
+
+  const { data: browsable, error: browsableError } = await supabase
+    .from("browsable_recipes")
+    .select("id, imported_content_id, meal_name, image_url")
+    .in("imported_content_id", importedIds)
+    .eq("visibility_status", "published")
+    .order("published_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (browsableError) {
+    console.error(
+      `${logPrefix} findPublishedDuplicate: browsable_recipes lookup failed`,
+      browsableError,
+    );
+    return null;
+  }
+
+  if (!browsable) {
+    console.log(
+      `${logPrefix} findPublishedDuplicate: Completed import found but not published`,
+    );
+    return null;
+  }
+
+  return {
+    status: "DUPLICATE_FOUND",
+    extract_id: browsable.imported_content_id as string,
+    imported_content_id: browsable.imported_content_id as string,
+    browsable_recipe_id: browsable.id as string,
+    source_url: sourceUrl,
+    meal_name: (browsable.meal_name as string | null) ?? null,
+    image_url: (browsable.image_url as string | null) ?? null,
+  };
+}
+
+function getDuplicateWindowDays(): number {
+  const raw = Number.parseInt(
+    Deno.env.get("IMPORT_DUPLICATE_WINDOW_DAYS") ?? "",
+    10,
+  );
+  return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_DUPLICATE_WINDOW_DAYS;
+}
+
+function isParseableHttpUrl(value: string): boolean {
+  try {
+    const protocol = new URL(value).protocol;
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
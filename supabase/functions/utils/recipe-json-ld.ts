@@ -0,0 +1,211 @@
+// schema.org Recipe JSON-LD for public recipe endpoints.
+//
+// Maps the normalised recipe shape shared by get-shared-recipe and
+// get-browsable-recipe (grouped `ingredients[].sub_ingredients` and
+// `steps[].sub_steps`, `cookingTime` in minutes, `servingSuggestions`) to the
+// properties search engines and recipe apps read. Fields we do not have are
+// omitted rather than guessed.
+
+export interface RecipeJsonLdAuthor {
+  name: string | null;
+  handle?: string | null;
+  profileUrl?: string | null;
+}
+
+export interface RecipeJsonLdOptions {
+  /** Best first; e.g. the original upload, then the 1200×630 variant. */
+  images?: Array<string | null>;
+  author?: RecipeJsonLdAuthor | null;
+  /** Canonical page for this recipe, if it has one. */
+  url?: string | null;
+  datePublished?: string | null;
+  /** The post the recipe was imported from. */
+  isBasedOn?: string | null;
+}
+
+type JsonLd = Record<string, unknown>;
+
+const SCHEMA_ORG_CONTEXT = "https://schema.org";
+
+export function buildRecipeJsonLd(
+  recipe: Record<string, unknown>,
+  options: RecipeJsonLdOptions = {},
+): JsonLd {
+  return {
+    "@context": SCHEMA_ORG_CONTEXT,
+    ...buildRecipeNode(recipe, options),
+  };
+}
+
+/** A bundle as an `ItemList` of recipes, in bundle order. */
+export function buildRecipeListJsonLd(
+  list: { title: string | null; description: string | null },
+  recipes: Array<{
+    recipe: Record<string, unknown>;
+    options?: RecipeJsonLdOptions;
+  }>,
+  options: Pick<RecipeJsonLdOptions, "url" | "images"> = {},
+): JsonLd {
+  return withoutEmpty({
+    "@context": SCHEMA_ORG_CONTEXT,
+    "@type": "ItemList",
+    name: list.title,
+    description: list.description,
+    url: options.url,
+    image: compactStrings(options.images ?? []),
+    numberOfItems: recipes.length,
+    itemListElement: recipes.map((item, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      item: buildRecipeNode(item.recipe, item.options ?? {}),
+    })),
+  });
+}
+
+/**
+ * `<script type="application/ld+json">` for an HTML head. `<`, `>`, `&` and
+ * the JS line separators are written as unicode escapes, so payload text
+ * cannot close the tag.
+ */
+export function renderJsonLdScript(jsonLd: JsonLd): string {
+  const json = JSON.stringify(jsonLd)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+  return `<script type="application/ld+json">${json}</script>`;
+}
+
+/** Minutes as an ISO 8601 duration, e.g. 90 → `PT1H30M`; null when not positive. */
+export function toIsoDuration(minutes: unknown): string | null {
+  if (typeof minutes !== "number" || !Number.isFinite(minutes)) {
+    return null;
+  }
+
+  const totalMinutes = Math.round(minutes);
+  if (totalMinutes <= 0) {
+    return null;
+  }
+
+  const hours = Math.floor(totalMinutes / 60);
+  const remainder = totalMinutes % 60;
+  return `PT${hours > 0 ? `${hours}H` : ""}${
+    remainder > 0 ? `${remainder}M` : ""
+  }`;
+}
+
+function buildRecipeNode(
+  recipe: Record<string, unknown>,
+  options: RecipeJsonLdOptions,
+): JsonLd {
+  const servings = recipe.servingSuggestions;
+
+  return withoutEmpty({
+    "@type": "Recipe",
+    name: asText(recipe.title),
+    description: asText(recipe.description),
+    image: compactStrings(options.images ?? [asText(recipe.imageUrl)]),
+    url: options.url,
+    author: buildAuthor(options.author ?? null),
+    datePublished: options.datePublished,
+    isBasedOn: options.isBasedOn,
+    cookTime: toIsoDuration(recipe.cookingTime),
+    recipeYield: typeof servings === "number" && servings > 0
+      ? String(servings)
+      : null,
+    recipeIngredient: buildIngredientLines(recipe.ingredients),
+    recipeInstructions: buildInstructions(recipe.steps),
+  });
+}
+
+function buildAuthor(author: RecipeJsonLdAuthor | null): JsonLd | null {
+  const name = asText(author?.name) ?? asText(author?.handle);
+  if (!author || !name) {
+    return null;
+  }
+
+  return withoutEmpty({
+    "@type": "Person",
+    name,
+    alternateName: name === asText(author.handle)
+      ? null
+      : asText(author.handle),
+    url: asText(author.profileUrl),
+  });
+}
+
+/** "2 cups rice (cold)"; groups are flattened, as `recipeIngredient` has none. */
+function buildIngredientLines(input: unknown): string[] {
+  return asRecords(input).flatMap((group) =>
+    asRecords(group.sub_ingredients).map((ingredient) => {
+      const line = [
+        asText(ingredient.quantity),
+        asText(ingredient.unit),
+        asText(ingredient.name),
+      ].filter(Boolean).join(" ");
+      const note = asText(ingredient.note);
+      return line && note ? `${line} (${note})` : line;
+    })
+  ).filter(Boolean);
+}
+
+/** Plain `HowToStep`s for one group; one `HowToSection` per group otherwise. */
+function buildInstructions(input: unknown): JsonLd[] {
+  const groups = asRecords(input)
+    .map((group) => ({
+      name: asText(group.name),
+      steps: (Array.isArray(group.sub_steps) ? group.sub_steps : [])
+        .map(asText)
+        .filter((step): step is string => step !== null)
+        .map((text) => ({ "@type": "HowToStep", text })),
+    }))
+    .filter((group) => group.steps.length > 0);
+
+  if (groups.length === 1) {
+    return groups[0].steps;
+  }
+
+  return groups.map((group) =>
+    withoutEmpty({
+      "@type": "HowToSection",
+      name: group.name,
+      itemListElement: group.steps,
+    })
+  );
+}
+
+function withoutEmpty(node: JsonLd): JsonLd {
+  return Object.fromEntries(
+    Object.entries(node).filter(([, value]) =>
+      value !== null && value !== undefined &&
+      !(Array.isArray(value) && value.length === 0)
+    ),
+  );
+}
+
+function compactStrings(values: Array<string | null>): string[] {
+  return Array.from(
+    new Set(values.filter((value): value is string => Boolean(value))),
+  );
+}
+
+function asRecords(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> =>
+      Boolean(item) && typeof item === "object"
+    )
+    : [];
+}
+
+function asText(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
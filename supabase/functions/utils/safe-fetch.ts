@@ -0,0 +1,444 @@
+// SSRF-hardened fetch helpers for user-supplied URLs.
+//
+// Redirects are followed manually so every hop can be checked before it is
+// requested: only http(s), no private/loopback/link-local/reserved addresses,
+// a bounded number of hops and a per-hop timeout. The full chain is returned
+// so callers can forward it as debug metadata.
+//
+// Known limitation: the host is resolved once for the check and again by
+// fetch() when it connects, and Deno's fetch cannot be pinned to the checked
+// address. A DNS server that answers differently the second time (DNS
+// rebinding) can still steer a hop to an internal address. The short per-hop
+// timeout and the GET-only, body-discarding redirect walk limit what such a
+// hop can reach or return.
+
+const DEFAULT_MAX_HOPS = 5;
+const DEFAULT_HOP_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_HTML_BYTES = 2 * 1024 * 1024;
+
+const ALLOWED_PROTOCOLS = new Set(["http:", "https:"]);
+const BLOCKED_HOSTNAME_SUFFIXES = [".localhost", ".local", ".internal"];
+const BLOCKED_HOSTNAMES = new Set(["localhost", "metadata.google.internal"]);
+
+export const BROWSER_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36";
+
+export type SafeFetchErrorCode =
+  | "INVALID_URL"
+  | "UNSUPPORTED_SCHEME"
+  | "BLOCKED_ADDRESS"
+  | "DNS_LOOKUP_FAILED"
+  | "TOO_MANY_REDIRECTS"
+  | "TIMEOUT"
+  | "NETWORK_ERROR"
+  | "RESPONSE_TOO_LARGE";
+
+export interface RedirectHop {
+  url: string;
+  status: number | null;
+  location: string | null;
+  duration_ms: number;
+  error_code: SafeFetchErrorCode | null;
+}
+
+export interface SafeFetchOptions {
+  maxHops?: number;
+  hopTimeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+export type SafeFetchResult =
+  | {
+    ok: true;
+    response: Response;
+    finalUrl: string;
+    chain: RedirectHop[];
+  }
+  | {
+    ok: false;
+    errorCode: SafeFetchErrorCode;
+    message: string;
+    /** Last URL that was reached (or refused). */
+    finalUrl: string;
+    chain: RedirectHop[];
+  };
+
+/**
+ * GET `url`, following up to `maxHops` redirects manually. Every hop is
+ * validated before it is requested. On success the caller owns the final
+ * response body.
+ */
+export async function safeFetch(
+  url: string,
+  options: SafeFetchOptions = {},
+): Promise<SafeFetchResult> {
+  const maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+  const hopTimeoutMs = options.hopTimeoutMs ?? DEFAULT_HOP_TIMEOUT_MS;
+  const chain: RedirectHop[] = [];
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= maxHops; hop += 1) {
+    const startedAt = Date.now();
+    const refusal = await checkUrlIsSafe(currentUrl);
+    if (refusal) {
+      chain.push({
+        url: currentUrl,
+        status: null,
+        location: null,
+        duration_ms: Date.now() - startedAt,
+        error_code: refusal.errorCode,
+      });
+      return { ok: false, ...refusal, finalUrl: currentUrl, chain };
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(currentUrl, {
+        redirect: "manual",
+        headers: options.headers,
+        signal: AbortSignal.timeout(hopTimeoutMs),
+      });
+    } catch (error) {
+      const isTimeout = error instanceof DOMException &&
+        (error.name === "TimeoutError" || error.name === "AbortError");
+      const errorCode: SafeFetchErrorCode = isTimeout
+        ? "TIMEOUT"
+        : "NETWORK_ERROR";
+      chain.push({
+        url: currentUrl,
+        status: null,
+        location: null,
+        duration_ms: Date.now() - startedAt,
+        error_code: errorCode,
+      });
+      return {
+        ok: false,
+        errorCode,
+        message: isTimeout
+          ? `Request timed out after ${hopTimeoutMs}ms`
+          : error instanceof Error
+          ? error.message
+          : "Network error",
+        finalUrl: currentUrl,
+        chain,
+      };
+    }
+
+    const location = isRedirectStatus(response.status)
+      ? response.headers.get("Location")
+      : null;
+    chain.push({
+      url: currentUrl,
+      status: response.status,
+      location,
+      duration_ms: Date.now() - startedAt,
+      error_code: null,
+    });
+
+    if (!location) {
+      return { ok: true, response, finalUrl: currentUrl, chain };
+    }
+
+    await response.body?.cancel();
+
+    try {
+      currentUrl = new URL(location, currentUrl).toString();
+    } catch {
+      chain[chain.length - 1].error_code = "INVALID_URL";
+      return {
+        ok: false,
+        errorCode: "INVALID_URL",
+        message: "Redirect location is not a valid URL",
+        finalUrl: currentUrl,
+        chain,
+      };
+    }
+  }
+
+  chain[chain.length - 1].error_code = "TOO_MANY_REDIRECTS";
+  return {
+    ok: false,
+    errorCode: "TOO_MANY_REDIRECTS",
+    message: `Exceeded ${maxHops} redirects`,
+    finalUrl: currentUrl,
+    chain,
+  };
+}
+
+export type RedirectResolution =
+  | { ok: true; finalUrl: string; chain: RedirectHop[] }
+  | {
+    ok: false;
+    errorCode: SafeFetchErrorCode;
+    message: string;
+    finalUrl: string;
+    chain: RedirectHop[];
+  };
+
+/** Follow redirects and return the final URL plus every hop taken. */
+export async function resolveRedirectChain(
+  url: string,
+  options: SafeFetchOptions = {},
+): Promise<RedirectResolution> {
+  const result = await safeFetch(url, {
+    ...options,
+    headers: { "User-Agent": BROWSER_USER_AGENT, ...options.headers },
+  });
+
+  if (!result.ok) {
+    return result;
+  }
+
+  await result.response.body?.cancel();
+  return { ok: true, finalUrl: result.finalUrl, chain: result.chain };
+}
+
+/**
+ * Fetch a page's HTML through `safeFetch`, reading at most `maxBytes`.
+ * Resolves to null on any refusal, network failure or oversized body.
+ */
+export async function fetchHtmlSafely(
+  url: string,
+  options: SafeFetchOptions & { maxBytes?: number } = {},
+): Promise<string | null> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_HTML_BYTES;
+  const result = await safeFetch(url, {
+    ...options,
+    headers: {
+      "User-Agent": BROWSER_USER_AGENT,
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      ...options.headers,
+    },
+  });
+
+  if (!result.ok) {
+    console.warn("[SAFE FETCH] HTML fetch refused or failed:", {
+      errorCode: result.errorCode,
+      message: result.message,
+      finalUrl: result.finalUrl,
+    });
+    return null;
+  }
+
+  try {
+    return await readTextWithLimit(result.response, maxBytes);
+  } catch (error) {
+    console.warn("[SAFE FETCH] HTML body read failed:", error);
+    return null;
+  }
+}
+
+async function readTextWithLimit(
+  response: Response,
+  maxBytes: number,
+): Promise<string | null> {
+  const declaredLength = Number(response.headers.get("Content-Length"));
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+function isRedirectStatus(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 ||
+    status === 307 || status === 308;
+}
+
+async function checkUrlIsSafe(
+  rawUrl: string,
+): Promise<{ errorCode: SafeFetchErrorCode; message: string } | null> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { errorCode: "INVALID_URL", message: "URL is not valid" };
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(url.protocol)) {
+    return {
+      errorCode: "UNSUPPORTED_SCHEME",
+      message: `Scheme ${url.protocol} is not allowed`,
+    };
+  }
+
+  if (url.username || url.password) {
+    return {
+      errorCode: "BLOCKED_ADDRESS",
+      message: "URLs with credentials are not allowed",
+    };
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+  if (
+    BLOCKED_HOSTNAMES.has(hostname) ||
+    BLOCKED_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    return {
+      errorCode: "BLOCKED_ADDRESS",
+      message: `Host ${hostname} is not allowed`,
+    };
+  }
+
+  const addresses = isIpLiteral(hostname)
+    ? [hostname]
+    : await lookupAddresses(hostname);
+
+  if (addresses === null) {
+    return {
+      errorCode: "DNS_LOOKUP_FAILED",
+      message: `Could not resolve ${hostname}`,
+    };
+  }
+
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    return {
+      errorCode: "BLOCKED_ADDRESS",
+      message: `Host ${hostname} resolves to a non-public address`,
+    };
+  }
+
+  return null;
+}
+
+async function lookupAddresses(hostname: string): Promise<string[] | null> {
+  const [v4, v6] = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+
+  const addresses = [
+    ...(v4.status === "fulfilled" ? v4.value : []),
+    ...(v6.status === "fulfilled" ? v6.value : []),
+  ];
+
+  return addresses.length > 0 ? addresses : null;
+}
+
+function isIpLiteral(hostname: string): boolean {
+  return parseIpv4(hostname) !== null || hostname.includes(":");
+}
+
+function parseIpv4(value: string): number[] | null {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => /^\d{1,3}$/.test(part) ? Number(part) : NaN);
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+function isBlockedAddress(address: string): boolean {
+  const v4 = parseIpv4(address);
+  if (v4) {
+    return isBlockedIpv4(v4);
+  }
+  return isBlockedIpv6(address.toLowerCase());
+}
+
+function isBlockedIpv4([a, b, c]: number[]): boolean {
+  return a === 0 || // "this" network
+    a === 10 || // private
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) || // private
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 192 && b === 168) || // private
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224; // multicast, reserved, broadcast
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const hextets = parseIpv6(address);
+  if (!hextets) {
+    return true;
+  }
+
+  const embeddedV4 = getEmbeddedIpv4(hextets);
+  if (embeddedV4) {
+    return isBlockedIpv4(embeddedV4);
+  }
+
+  const [first, second, third] = hextets;
+  return (first === 0x64 && second === 0xff9b && third === 1) || // local-use NAT64 64:ff9b:1::/48
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00; // multicast ff00::/8
+}
+
+/**
+ * IPv4-compatible (`::a.b.c.d`, which covers `::` and `::1`), IPv4-mapped
+ * (`::ffff:a.b.c.d`) and NAT64 (`64:ff9b::a.b.c.d`) addresses carry an IPv4
+ * address in the low 32 bits, whether it is written dotted or in hex.
+ */
+function getEmbeddedIpv4(hextets: number[]): number[] | null {
+  const [first, second, , , , sixth, seventh, eighth] = hextets;
+  const isZero = (hextet: number) => hextet === 0;
+  const carriesIpv4 =
+    (hextets.slice(0, 5).every(isZero) && (sixth === 0 || sixth === 0xffff)) ||
+    (first === 0x64 && second === 0xff9b && hextets.slice(2, 6).every(isZero));
+  if (!carriesIpv4) return null;
+  return [seventh >> 8, seventh & 0xff, eighth >> 8, eighth & 0xff];
+}
+
+/** Expand an IPv6 literal to its eight hextets, or null if it is malformed. */
+function parseIpv6(value: string): number[] | null {
+  let address = value.split("%")[0];
+
+  const lastColon = address.lastIndexOf(":");
+  const dottedTail = address.slice(lastColon + 1);
+  if (dottedTail.includes(".")) {
+    const v4 = parseIpv4(dottedTail);
+    if (!v4) return null;
+    const high = ((v4[0] << 8) | v4[1]).toString(16);
+    const low = ((v4[2] << 8) | v4[3]).toString(16);
+    address = `${address.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+  const parseGroups = (part: string) =>
+    part === ""
+      ? []
+      : part.split(":").map((group) =>
+        /^[0-9a-f]{1,4}$/i.test(group) ? Number.parseInt(group, 16) : NaN
+      );
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if ([...head, ...tail].some(Number.isNaN)) return null;
+
+  if (halves.length === 1) {
+    return head.length === 8 ? head : null;
+  }
+  const missing = 8 - head.length - tail.length;
+  return missing >= 1
+    ? [...head, ...new Array<number>(missing).fill(0), ...tail]
+    : null;
+}
@@ -0,0 +1,264 @@
+// Server-side validation of `supabase://scan-uploads/...` pointers before they
+// are handed to FastAPI.
+//
+// One ranged GET per object (through a short-lived signed URL) proves the
+// object exists, returns its total size and the leading bytes used to sniff
+// the real file type; the declared Content-Type is never trusted.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+export const SCAN_UPLOAD_BUCKET = "scan-uploads";
+export const SCAN_UPLOAD_POINTER_PREFIX = `supabase://${SCAN_UPLOAD_BUCKET}/`;
+
+export const MAX_SCAN_IMAGES = 5;
+export const MAX_SCAN_JPEG_BYTES = 10 * 1024 * 1024;
+export const MAX_SCAN_PDF_BYTES = 20 * 1024 * 1024;
+
+const SNIFF_BYTES = 16;
+const SIGNED_URL_TTL_SECONDS = 60;
+const OBJECT_PROBE_TIMEOUT_MS = 5000;
+
+export type ScanUploadMimeType = "image/jpeg" | "application/pdf";
+
+export type ScanUploadErrorCode =
+  | "INVALID_SCAN_COUNT"
+  | "INVALID_SCAN_POINTER"
+  | "SCAN_UPLOAD_FORBIDDEN"
+  | "SCAN_UPLOAD_DUPLICATE"
+  | "SCAN_UPLOAD_NOT_FOUND"
+  | "SCAN_UPLOAD_EMPTY"
+  | "SCAN_UPLOAD_UNSUPPORTED_TYPE"
+  | "SCAN_UPLOAD_TOO_LARGE"
+  | "SCAN_UPLOAD_MIXED_TYPES"
+  | "SCAN_UPLOAD_MULTIPLE_PDFS"
+  | "SCAN_UPLOAD_PDF_NOT_ALLOWED"
+  | "SCAN_UPLOAD_CHECK_FAILED";
+
+export interface ValidatedScanUpload {
+  pointer: string;
+  path: string;
+  mimeType: ScanUploadMimeType;
+  sizeBytes: number;
+}
+
+export type ScanUploadValidation =
+  | { ok: true; kind: "pdf" | "images"; uploads: ValidatedScanUpload[] }
+  | {
+    ok: false;
+    status: number;
+    errorCode: ScanUploadErrorCode;
+    message: string;
+    pointer: string | null;
+  };
+
+type ScanUploadFailure = Extract<ScanUploadValidation, { ok: false }>;
+
+export interface ScanUploadValidationOptions {
+  /** Screenshot-only callers (URL + screenshot import) set this to false. */
+  allowPdf?: boolean;
+}
+
+/**
+ * Validate that `pointers` is either exactly one PDF or 1-5 JPEGs, all owned
+ * by `authUserId`, present in the bucket and within the size limits.
+ */
+export async function validateScanUploadPointers(
+  supabase: SupabaseClient,
+  pointers: unknown,
+  authUserId: string,
+  logPrefix: string,
+  options: ScanUploadValidationOptions = {},
+): Promise<ScanUploadValidation> {
+  if (
+    !Array.isArray(pointers) || pointers.length < 1 ||
+    pointers.length > MAX_SCAN_IMAGES
+  ) {
+    return failure(
+      422,
+      "INVALID_SCAN_COUNT",
+      `Provide 1–${MAX_SCAN_IMAGES} images or one PDF`,
+    );
+  }
+
+  const paths: string[] = [];
+  for (const pointer of pointers) {
+    if (typeof pointer !== "string" || !pointer.startsWith(SCAN_UPLOAD_POINTER_PREFIX)) {
+      return failure(422, "INVALID_SCAN_POINTER", "Scan upload pointer is invalid", pointer);
+    }
+
+    const path = pointer.slice(SCAN_UPLOAD_POINTER_PREFIX.length);
+    const segments = path.split("/");
+    if (segments.length < 2 || segments.some((segment) => !segment || segment === "." || segment === "..")) {
+      return failure(422, "INVALID_SCAN_POINTER", "Scan upload pointer is invalid", pointer);
+    }
+
+    if (segments[0] !== authUserId) {
+      return failure(403, "SCAN_UPLOAD_FORBIDDEN", "Scan upload does not belong to this user", pointer);
+    }
+
+    if (paths.includes(path)) {
+      return failure(422, "SCAN_UPLOAD_DUPLICATE", "The same scan upload was submitted twice", pointer);
+    }
+    paths.push(path);
+  }
+
+  const probes = await Promise.all(
+    paths.map((path, index) => probeScanUpload(supabase, path, pointers[index] as string, logPrefix)),
+  );
+
+  const uploads: ValidatedScanUpload[] = [];
+  for (const probe of probes) {
+    if (!probe.ok) return probe;
+    uploads.push(probe.upload);
+  }
+
+  const pdfCount = uploads.filter((upload) => upload.mimeType === "application/pdf").length;
+  if (pdfCount > 0 && options.allowPdf === false) {
+    return failure(422, "SCAN_UPLOAD_PDF_NOT_ALLOWED", "Only JPEG screenshots can be attached to a URL import");
+  }
+  if (pdfCount > 1) {
+    return failure(422, "SCAN_UPLOAD_MULTIPLE_PDFS", "Only one PDF can be imported at a time");
+  }
+  if (pdfCount === 1 && uploads.length > 1) {
+    return failure(422, "SCAN_UPLOAD_MIXED_TYPES", "A PDF cannot be combined with images");
+  }
+
+  console.log(`${logPrefix} validateScanUploadPointers: Validated`, uploads);
+  return { ok: true, kind: pdfCount === 1 ? "pdf" : "images", uploads };
+}
+
+/** Sniff a supported scan type from leading bytes; null for anything else. */
+export function sniffScanUploadMimeType(bytes: Uint8Array): ScanUploadMimeType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+
+  // "%PDF-"
+  if (
+    bytes.length >= 5 && bytes[0] === 0x25 && bytes[1] === 0x50 &&
+    bytes[2] === 0x44 && bytes[3] === 0x46 && bytes[4] === 0x2d
+  ) {
+    return "application/pdf";
+  }
+
+  return null;
+}
+
+async function probeScanUpload(
+  supabase: SupabaseClient,
+  path: string,
+  pointer: string,
+  logPrefix: string,
+): Promise<{ ok: true; upload: ValidatedScanUpload } | ScanUploadFailure> {
+  const { data: signed, error: signError } = await supabase.storage
+    .from(SCAN_UPLOAD_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (signError || !signed?.signedUrl) {
+    console.warn(`${logPrefix} probeScanUpload: Could not sign`, { path, signError });
+    return failure(422, "SCAN_UPLOAD_NOT_FOUND", "Scan upload was not found", pointer);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(signed.signedUrl, {
+      headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` },
+      signal: AbortSignal.timeout(OBJECT_PROBE_TIMEOUT_MS),
+    });
+  } catch (error) {
+    console.error(`${logPrefix} probeScanUpload: Fetch failed`, { path, error });
+    return failure(502, "SCAN_UPLOAD_CHECK_FAILED", "Could not verify scan upload", pointer);
+  }
+
+  if (response.status === 400 || response.status === 404) {
+    await response.body?.cancel();
+    return failure(422, "SCAN_UPLOAD_NOT_FOUND", "Scan upload was not found", pointer);
+  }
+
+  if (response.status === 416) {
+    await response.body?.cancel();
+    return failure(422, "SCAN_UPLOAD_EMPTY", "Scan upload is empty", pointer);
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    console.error(`${logPrefix} probeScanUpload: Unexpected status`, { path, status: response.status });
+    return failure(502, "SCAN_UPLOAD_CHECK_FAILED", "Could not verify scan upload", pointer);
+  }
+
+  const sizeBytes = readTotalSize(response);
+  const head = await readLeadingBytes(response, SNIFF_BYTES);
+
+  if (sizeBytes === 0 || head.length === 0) {
+    return failure(422, "SCAN_UPLOAD_EMPTY", "Scan upload is empty", pointer);
+  }
+
+  const mimeType = sniffScanUploadMimeType(head);
+  if (!mimeType) {
+    return failure(422, "SCAN_UPLOAD_UNSUPPORTED_TYPE", "Scan uploads must be JPEG images or a PDF", pointer);
+  }
+
+  const maxBytes = mimeType === "application/pdf" ? MAX_SCAN_PDF_BYTES : MAX_SCAN_JPEG_BYTES;
+  if (sizeBytes === null || sizeBytes > maxBytes) {
+    return failure(
+      422,
+      "SCAN_UPLOAD_TOO_LARGE",
+      `Scan upload exceeds the ${Math.round(maxBytes / (1024 * 1024))} MB limit`,
+      pointer,
+    );
+  }
+
+  return { ok: true, upload: { pointer, path, mimeType, sizeBytes } };
+}
+
+/** Total object size from `Content-Range` (206) or `Content-Length` (200). */
+function readTotalSize(response: Response): number | null {
+  const contentRange = response.headers.get("Content-Range");
+  const total = contentRange?.match(/\/(\d+)$/)?.[1];
+  if (total) {
+    return Number(total);
+  }
+
+  if (response.status === 200) {
+    const length = Number(response.headers.get("Content-Length"));
+    return Number.isFinite(length) && length >= 0 ? length : null;
+  }
+
+  return null;
+}
+
+async function readLeadingBytes(response: Response, count: number): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array();
+  }
+
+  const reader = response.body.getReader();
+  const bytes = new Uint8Array(count);
+  let received = 0;
+
+  while (received < count) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const take = Math.min(value.byteLength, count - received);
+    bytes.set(value.subarray(0, take), received);
+    received += take;
+  }
+
+  await reader.cancel();
+  return bytes.subarray(0, received);
+}
+
+function failure(
+  status: number,
+  errorCode: ScanUploadErrorCode,
+  message: string,
+  pointer: unknown = null,
+): ScanUploadFailure {
+  return {
+    ok: false,
+    status,
+    errorCode,
+    message,
+    pointer: typeof pointer === "string" ? pointer : null,
+  };
+}
@@ -0,0 +1,37 @@
+// Content fingerprint of a shared recipe link.
+//
+// Stored in `shared_recipe_links.content_hash` so a repeat share of the same
+// content by the same owner can return the existing link. The hash covers the
+// normalised payload (before `sharedAt` is stamped) and the SHA-256 of each
+// uploaded image, in target order. Bump the version prefix when the inputs
+// change so old rows stop matching instead of matching wrongly.
+
+import { stableStringify } from "./idempotency.ts";
+
+const SHARE_CONTENT_HASH_VERSION = "v1";
+
+export interface ShareContentHashInput {
+  shareType: "recipe" | "bundle";
+  payload: unknown;
+  /** Hex SHA-256 per image slot; null where the slot has no upload. */
+  imageHashes: Array<string | null>;
+}
+
+export async function computeShareContentHash(
+  input: ShareContentHashInput,
+): Promise<string> {
+  const digest = await sha256HexOfBytes(
+    new TextEncoder().encode(stableStringify(input)),
+  );
+  return `${SHARE_CONTENT_HASH_VERSION}:${digest}`;
+}
+
+export async function sha256HexOfBytes(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    bytes as Uint8Array<ArrayBuffer>,
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,260 @@
+// Content rules for shared recipe payloads.
+//
+// Share links are public, so every owner-supplied string is stripped of HTML
+// and held to a length limit, URLs off the allow-list are dropped, and the
+// whole snapshot has a size cap. Checks append to a `violations` list instead
+// of throwing so the client gets every problem in one response.
+
+import { URL_CANONICALIZERS } from "./url-canonicalizers/registry.ts";
+
+export type ShareContentViolationCode =
+  | "FIELD_TOO_LONG"
+  | "TOO_MANY_ITEMS"
+  | "PAYLOAD_TOO_LARGE"
+  | "INVALID_ATTRIBUTION"
+  | "CONTENT_REJECTED";
+
+export interface ShareContentViolation {
+  code: ShareContentViolationCode;
+  /** Dotted path into the request body, e.g. `recipe.steps[0].sub_steps[2]`. */
+  field: string | null;
+  message: string;
+  limit?: number;
+  reasons?: string[];
+}
+
+export const SHARE_CONTENT_LIMITS = {
+  titleChars: 200,
+  descriptionChars: 2000,
+  groupNameChars: 200,
+  ingredientNameChars: 200,
+  ingredientQuantityChars: 50,
+  ingredientUnitChars: 50,
+  ingredientNoteChars: 500,
+  stepChars: 2000,
+  ingredientsPerRecipe: 200,
+  stepsPerRecipe: 100,
+  attributionKeys: 20,
+  attributionKeyChars: 50,
+  attributionValueChars: 500,
+  recipePayloadBytes: 64 * 1024,
+  bundlePayloadBytes: 512 * 1024,
+} as const;
+
+// Hosts allowed in imageUrl and attribution links, on top of the project's own
+// Supabase host and SHARE_ALLOWED_URL_HOSTS (comma-separated). Subdomains
+// match. Imported recipes link to, and take their images from, the platforms
+// we import from.
+const DEFAULT_ALLOWED_URL_HOSTS = [
+  "kerisik.app",
+  ...URL_CANONICALIZERS.flatMap((canonicalizer) => [
+    ...canonicalizer.hosts,
+    ...canonicalizer.shortLinkHosts,
+  ]),
+  "cdninstagram.com",
+  "fbcdn.net",
+  "tiktokcdn.com",
+  "tiktokcdn-us.com",
+  "ytimg.com",
+  "pinimg.com",
+  "xhscdn.com",
+];
+
+// "scheme://..." plus the schemes that run or embed content without slashes.
+const LINK_LIKE_PATTERN =
+  /^([a-z][a-z0-9+.-]*:\/\/|(javascript|data|vbscript):)/i;
+
+/** Plain text: script/style blocks, comments and tags removed, control characters dropped. */
+export function sanitizeShareText(value: unknown): string {
+  if (typeof value !== "string") {
+    return "";
+  }
+
+  return value
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    // deno-lint-ignore no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, "")
+    .trim();
+}
+
+export function checkShareTextLength(
+  violations: ShareContentViolation[],
+  field: string,
+  value: string | null,
+  limit: number,
+): void {
+  if (value && value.length > limit) {
+    violations.push({
+      code: "FIELD_TOO_LONG",
+      field,
+      message: `${field} must be at most ${limit} characters`,
+      limit,
+    });
+  }
+}
+
+export function checkShareItemCount(
+  violations: ShareContentViolation[],
+  field: string,
+  count: number,
+  limit: number,
+): void {
+  if (count > limit) {
+    violations.push({
+      code: "TOO_MANY_ITEMS",
+      field,
+      message: `${field} must contain at most ${limit} items`,
+      limit,
+    });
+  }
+}
+
+export function checkSharePayloadSize(
+  violations: ShareContentViolation[],
+  field: string,
+  payload: unknown,
+  limitBytes: number,
+): void {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload)).byteLength;
+  if (bytes > limitBytes) {
+    violations.push({
+      code: "PAYLOAD_TOO_LARGE",
+      field,
+      message: `${field} must be at most ${limitBytes} bytes (got ${bytes})`,
+      limit: limitBytes,
+    });
+  }
+}
+
+/**
+ * The URL if it is https on an allowed host, otherwise null. Other links are
+ * dropped rather than refusing the share, so a recipe with an unknown image
+ * host is still shared, just without that image.
+ */
+export function sanitizeShareUrl(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const url = URL.canParse(value) ? new URL(value) : null;
+  if (
+    !url || url.protocol !== "https:" || !isAllowedShareUrlHost(url.hostname)
+  ) {
+    return null;
+  }
+
+  return url.toString();
+}
+
+/**
+ * A flat object of short scalar values. String values are sanitised, and any
+ * value that looks like a link is nulled unless it passes the URL allow-list.
+ */
+export function sanitizeShareAttribution(
+  violations: ShareContentViolation[],
+  field: string,
+  value: unknown,
+): Record<string, string | number | boolean | null> | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    violations.push({
+      code: "INVALID_ATTRIBUTION",
+      field,
+      message: `${field} must be an object`,
+    });
+    return null;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > SHARE_CONTENT_LIMITS.attributionKeys) {
+    violations.push({
+      code: "INVALID_ATTRIBUTION",
+      field,
+      message:
+        `${field} must have at most ${SHARE_CONTENT_LIMITS.attributionKeys} keys`,
+      limit: SHARE_CONTENT_LIMITS.attributionKeys,
+    });
+    return null;
+  }
+
+  const attribution: Record<string, string | number | boolean | null> = {};
+  for (const [key, entryValue] of entries) {
+    const entryField = `${field}.${key}`;
+    if (key.length > SHARE_CONTENT_LIMITS.attributionKeyChars) {
+      violations.push({
+        code: "INVALID_ATTRIBUTION",
+        field: entryField,
+        message:
+          `${field} keys must be at most ${SHARE_CONTENT_LIMITS.attributionKeyChars} characters`,
+        limit: SHARE_CONTENT_LIMITS.attributionKeyChars,
+      });
+      continue;
+    }
+
+    if (
+      entryValue === null || typeof entryValue === "boolean" ||
+      (typeof entryValue === "number" && Number.isFinite(entryValue))
+    ) {
+      attribution[key] = entryValue;
+      continue;
+    }
+
+    if (typeof entryValue !== "string") {
+      violations.push({
+        code: "INVALID_ATTRIBUTION",
+        field: entryField,
+        message: `${entryField} must be a string, number, boolean or null`,
+      });
+      continue;
+    }
+
+    const text = sanitizeShareText(entryValue);
+    checkShareTextLength(
+      violations,
+      entryField,
+      text,
+      SHARE_CONTENT_LIMITS.attributionValueChars,
+    );
+    attribution[key] = LINK_LIKE_PATTERN.test(text)
+      ? sanitizeShareUrl(text)
+      : text;
+  }
+
+  return attribution;
+}
+
+function isAllowedShareUrlHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return getAllowedShareUrlHosts().some((allowed) =>
+    host === allowed || host.endsWith(`.${allowed}`)
+  );
+}
+
+function getAllowedShareUrlHosts(): string[] {
+  const hosts = [...DEFAULT_ALLOWED_URL_HOSTS];
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  if (supabaseUrl) {
+    try {
+      hosts.push(new URL(supabaseUrl).hostname);
+    } catch {
+      // Ignore a malformed SUPABASE_URL; the function fails elsewhere anyway.
+    }
+  }
+
+  for (
+    const host of (Deno.env.get("SHARE_ALLOWED_URL_HOSTS") ?? "").split(",")
+  ) {
+    const trimmed = host.trim().toLowerCase();
+    if (trimmed) {
+      hosts.push(trimmed);
+    }
+  }
+
+  return hosts;
+}
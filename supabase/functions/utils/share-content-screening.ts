@@ -0,0 +1,156 @@
+// Pluggable screening of shared recipe content before a link is created.
+//
+// Each screener returns allow, flag or reject. The strictest verdict wins:
+// rejected shares are refused, flagged shares are created but recorded for
+// review in `shared_recipe_links.moderation_status`. A screener that throws is
+// logged and treated as allow, so an outage never blocks sharing.
+
+export type ShareScreeningVerdict = "allow" | "flag" | "reject";
+
+export interface ShareScreeningInput {
+  shareType: "recipe" | "bundle";
+  ownerUserProfileId: string;
+  /** Every owner-supplied string in the sanitised payload. */
+  texts: string[];
+  /** URLs found in `texts`. */
+  urls: string[];
+}
+
+export interface ShareScreeningResult {
+  verdict: ShareScreeningVerdict;
+  reasons: string[];
+}
+
+export interface ShareContentScreener {
+  name: string;
+  screen(input: ShareScreeningInput): Promise<ShareScreeningResult>;
+}
+
+const ALLOW: ShareScreeningResult = { verdict: "allow", reasons: [] };
+const VERDICT_RANK: Record<ShareScreeningVerdict, number> = {
+  allow: 0,
+  flag: 1,
+  reject: 2,
+};
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"']+/gi;
+
+const LINK_SPAM_FLAG_COUNT = 3;
+const LINK_SPAM_REJECT_COUNT = 10;
+const WEBHOOK_TIMEOUT_MS = 3000;
+
+/** Recipes rarely need links in their text; many of them look like spam. */
+export const linkSpamScreener: ShareContentScreener = {
+  name: "link-spam",
+  screen(input) {
+    const count = input.urls.length;
+    if (count >= LINK_SPAM_REJECT_COUNT) {
+      return Promise.resolve({
+        verdict: "reject",
+        reasons: [`LINK_SPAM: ${count} links`],
+      });
+    }
+    if (count >= LINK_SPAM_FLAG_COUNT) {
+      return Promise.resolve({
+        verdict: "flag",
+        reasons: [`LINK_SPAM_SUSPECTED: ${count} links`],
+      });
+    }
+    return Promise.resolve(ALLOW);
+  },
+};
+
+/**
+ * Posts the content to `SHARE_CONTENT_SCREENING_URL` (a moderation service or
+ * worker) and expects `{ "verdict": "allow" | "flag" | "reject", "reasons": [] }`.
+ * Disabled when the URL is unset.
+ */
+export const webhookScreener: ShareContentScreener = {
+  name: "webhook",
+  async screen(input) {
+    const endpoint = Deno.env.get("SHARE_CONTENT_SCREENING_URL");
+    if (!endpoint) {
+      return ALLOW;
+    }
+
+    const secret = Deno.env.get("SHARE_CONTENT_SCREENING_SECRET");
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+      },
+      body: JSON.stringify(input),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Screening webhook returned ${response.status}`);
+    }
+
+    const body = await response.json() as Partial<ShareScreeningResult>;
+    const verdict = body.verdict && body.verdict in VERDICT_RANK
+      ? body.verdict
+      : "allow";
+    const reasons = Array.isArray(body.reasons)
+      ? body.reasons.filter((reason): reason is string =>
+        typeof reason === "string"
+      )
+      : [];
+    return { verdict, reasons };
+  },
+};
+
+/**
+ * Registered screeners, all run for every share. To plug in another check,
+ * implement `ShareContentScreener` and list it here.
+ */
+export const SHARE_CONTENT_SCREENERS: readonly ShareContentScreener[] = [
+  linkSpamScreener,
+  webhookScreener,
+];
+
+export async function screenShareContent(
+  shareType: ShareScreeningInput["shareType"],
+  ownerUserProfileId: string,
+  payload: unknown,
+  logPrefix: string,
+  screeners: readonly ShareContentScreener[] = SHARE_CONTENT_SCREENERS,
+): Promise<ShareScreeningResult> {
+  const texts = collectStrings(payload);
+  const urls = texts.flatMap((text) => text.match(URL_PATTERN) ?? []);
+  const input: ShareScreeningInput = {
+    shareType,
+    ownerUserProfileId,
+    texts,
+    urls,
+  };
+
+  const results = await Promise.all(screeners.map(async (screener) => {
+    try {
+      return await screener.screen(input);
+    } catch (error) {
+      console.warn(`${logPrefix} Screener ${screener.name} failed:`, error);
+      return ALLOW;
+    }
+  }));
+
+  return results.reduce((combined, result) => ({
+    verdict: VERDICT_RANK[result.verdict] > VERDICT_RANK[combined.verdict]
+      ? result.verdict
+      : combined.verdict,
+    reasons: [...combined.reasons, ...result.reasons],
+  }), ALLOW);
+}
+
+function collectStrings(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value ? [value] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
@@ -0,0 +1,60 @@
+// Owner-selectable lifetimes for shared recipe links.
+//
+// A "never" link is stored with `expires_at = NULL`; everything that reads
+// `shared_recipe_links.expires_at` must treat NULL as "does not expire".
+
+export type ShareExpiryOption = "1d" | "7d" | "30d" | "never";
+
+export type SharePlan = "free" | "pro";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SHARE_EXPIRY_DURATIONS_MS: Record<
+  ShareExpiryOption,
+  number | null
+> = {
+  "1d": DAY_MS,
+  "7d": 7 * DAY_MS,
+  "30d": 30 * DAY_MS,
+  never: null,
+};
+
+export const SHARE_EXPIRY_PLAN_OPTIONS: Record<SharePlan, ShareExpiryOption[]> =
+  {
+    free: ["1d", "7d"],
+    pro: ["1d", "7d", "30d", "never"],
+  };
+
+/** Lifetime used when the request does not choose one (older app builds). */
+export const DEFAULT_SHARE_TTL_MS = 3 * DAY_MS;
+
+export function parseShareExpiryOption(
+  value: unknown,
+): ShareExpiryOption | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return normalized in SHARE_EXPIRY_DURATIONS_MS
+    ? normalized as ShareExpiryOption
+    : null;
+}
+
+export function isShareExpiryAllowed(
+  option: ShareExpiryOption,
+  plan: SharePlan,
+): boolean {
+  return SHARE_EXPIRY_PLAN_OPTIONS[plan].includes(option);
+}
+
+/** ISO timestamp for `option` counted from `fromMs`, or null for "never". */
+export function resolveShareExpiresAt(
+  option: ShareExpiryOption,
+  fromMs = Date.now(),
+): string | null {
+  const durationMs = SHARE_EXPIRY_DURATIONS_MS[option];
+  return durationMs === null
+    ? null
+    : new Date(fromMs + durationMs).toISOString();
+}
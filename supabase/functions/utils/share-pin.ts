@@ -0,0 +1,96 @@
+// Optional PINs on shared recipe links.
+//
+// Only a salted PBKDF2 hash is stored in `shared_recipe_links.pin_hash`, as
+// `pbkdf2_sha256$<iterations>$<salt b64>$<hash b64>`. A PIN has at most 10^8
+// values, so the hash alone does not stop brute force; get-shared-recipe also
+// rate-limits wrong attempts.
+
+const PIN_PATTERN = /^\d{4,8}$/;
+const PIN_HASH_ALGORITHM = "pbkdf2_sha256";
+const PIN_HASH_ITERATIONS = 100_000;
+const PIN_SALT_BYTES = 16;
+const PIN_HASH_BITS = 256;
+
+/** 4–8 ASCII digits, or null. */
+export function parseSharePin(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return PIN_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+export async function hashSharePin(pin: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(PIN_SALT_BYTES));
+  const hash = await derivePinHash(pin, salt, PIN_HASH_ITERATIONS);
+  return [
+    PIN_HASH_ALGORITHM,
+    String(PIN_HASH_ITERATIONS),
+    encodeBase64(salt),
+    encodeBase64(hash),
+  ].join("$");
+}
+
+/** False for a wrong PIN and for a stored hash this module cannot read. */
+export async function verifySharePin(
+  pin: string,
+  storedHash: string,
+): Promise<boolean> {
+  const [algorithm, iterationsText, saltText, hashText] = storedHash.split("$");
+  const iterations = Number(iterationsText);
+  if (
+    algorithm !== PIN_HASH_ALGORITHM || !Number.isInteger(iterations) ||
+    iterations <= 0 || !saltText || !hashText
+  ) {
+    return false;
+  }
+
+  const expected = decodeBase64(hashText);
+  const actual = await derivePinHash(pin, decodeBase64(saltText), iterations);
+  return timingSafeEqual(actual, expected);
+}
+
+async function derivePinHash(
+  pin: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    PIN_HASH_BITS,
+  );
+  return new Uint8Array(bits);
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    difference |= a[index] ^ b[index];
+  }
+  return difference === 0;
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
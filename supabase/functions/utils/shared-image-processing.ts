@@ -0,0 +1,298 @@
+// Sanitises shared recipe images and renders their derivatives.
+//
+// The client's declared content type is never trusted: the real type is
+// sniffed from magic bytes, the image is decoded and re-encoded as JPEG, which
+// drops EXIF (including GPS) and any other embedded metadata. EXIF orientation
+// is applied to the pixels first so phone photos do not end up sideways.
+
+import { Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+
+export type SharedImageType = "image/jpeg" | "image/png";
+
+export type SharedImageVariant = "original" | "thumbnail" | "og";
+
+export const SHARED_IMAGE_VARIANT_FILE_NAMES: Record<
+  SharedImageVariant,
+  string
+> = {
+  original: "original.jpg",
+  thumbnail: "thumbnail.jpg",
+  og: "og.jpg",
+};
+
+// Decoding needs width × height × 4 bytes, whatever the file size: a 25 MP
+// photo is ~100 MB of RGBA. Larger canvases are refused before decoding.
+const MAX_SOURCE_PIXELS = 25_000_000;
+// Longest side of the stored original; larger phone photos are scaled down.
+const ORIGINAL_MAX_DIMENSION = 2048;
+const THUMBNAIL_MAX_DIMENSION = 400;
+const OG_WIDTH = 1200;
+const OG_HEIGHT = 630;
+const ORIGINAL_JPEG_QUALITY = 85;
+const DERIVATIVE_JPEG_QUALITY = 80;
+
+export type SharedImageProcessingResult =
+  | {
+    ok: true;
+    sourceType: SharedImageType;
+    variants: Record<SharedImageVariant, Uint8Array>;
+  }
+  | {
+    ok: false;
+    errorCode:
+      | "SHARE_IMAGE_UNSUPPORTED_TYPE"
+      | "SHARE_IMAGE_UNDECODABLE"
+      | "SHARE_IMAGE_DIMENSIONS_TOO_LARGE";
+    message: string;
+  };
+
+/**
+ * Sniff JPEG or PNG from leading bytes; null for anything else. WebP is not
+ * accepted because imagescript cannot decode it.
+ */
+export function sniffSharedImageType(
+  bytes: Uint8Array,
+): SharedImageType | null {
+  if (
+    bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 &&
+    bytes[2] === 0xff
+  ) {
+    return "image/jpeg";
+  }
+
+  if (
+    bytes.length >= 8 && bytes[0] === 0x89 && bytes[1] === 0x50 &&
+    bytes[2] === 0x4e && bytes[3] === 0x47 && bytes[4] === 0x0d &&
+    bytes[5] === 0x0a && bytes[6] === 0x1a && bytes[7] === 0x0a
+  ) {
+    return "image/png";
+  }
+
+  return null;
+}
+
+/**
+ * Verify, strip and re-encode `bytes`, returning the sanitised original plus
+ * a thumbnail and a 1200×630 OpenGraph crop, all as JPEG.
+ */
+export async function processSharedImage(
+  bytes: Uint8Array,
+  logPrefix: string,
+): Promise<SharedImageProcessingResult> {
+  const sourceType = sniffSharedImageType(bytes);
+  if (!sourceType) {
+    return {
+      ok: false,
+      errorCode: "SHARE_IMAGE_UNSUPPORTED_TYPE",
+      message: "Image must be JPEG or PNG",
+    };
+  }
+
+  const dimensions = readImageDimensions(bytes, sourceType);
+  if (!dimensions) {
+    return {
+      ok: false,
+      errorCode: "SHARE_IMAGE_UNDECODABLE",
+      message: "Image dimensions could not be read",
+    };
+  }
+  if (dimensions.width * dimensions.height > MAX_SOURCE_PIXELS) {
+    return {
+      ok: false,
+      errorCode: "SHARE_IMAGE_DIMENSIONS_TOO_LARGE",
+      message: "Image must be at most 25 megapixels",
+    };
+  }
+
+  let image: Image;
+  try {
+    image = await Image.decode(bytes);
+  } catch (error) {
+    console.warn(`${logPrefix} processSharedImage: Decode failed`, {
+      sourceType,
+      error,
+    });
+    return {
+      ok: false,
+      errorCode: "SHARE_IMAGE_UNDECODABLE",
+      message: "Image could not be decoded",
+    };
+  }
+
+  // Scale down in place first so the full-size bitmap can be freed; rotation
+  // and the smaller variants then work on at most 2048×2048.
+  fitWithin(image, ORIGINAL_MAX_DIMENSION);
+  if (sourceType === "image/jpeg") {
+    image = applyExifOrientation(image, readJpegExifOrientation(bytes));
+  }
+
+  const thumbnail = image.clone();
+  fitWithin(thumbnail, THUMBNAIL_MAX_DIMENSION);
+  const og = image.clone().cover(OG_WIDTH, OG_HEIGHT);
+
+  const [originalJpeg, thumbnailJpeg, ogJpeg] = await Promise.all([
+    image.encodeJPEG(ORIGINAL_JPEG_QUALITY),
+    thumbnail.encodeJPEG(DERIVATIVE_JPEG_QUALITY),
+    og.encodeJPEG(DERIVATIVE_JPEG_QUALITY),
+  ]);
+
+  console.log(`${logPrefix} processSharedImage: Processed`, {
+    sourceType,
+    sourceBytes: bytes.byteLength,
+    width: dimensions.width,
+    height: dimensions.height,
+    originalBytes: originalJpeg.byteLength,
+    thumbnailBytes: thumbnailJpeg.byteLength,
+    ogBytes: ogJpeg.byteLength,
+  });
+
+  return {
+    ok: true,
+    sourceType,
+    variants: {
+      original: originalJpeg,
+      thumbnail: thumbnailJpeg,
+      og: ogJpeg,
+    },
+  };
+}
+
+function fitWithin(image: Image, maxDimension: number): void {
+  if (image.width <= maxDimension && image.height <= maxDimension) {
+    return;
+  }
+
+  if (image.width >= image.height) {
+    image.resize(maxDimension, Image.RESIZE_AUTO);
+  } else {
+    image.resize(Image.RESIZE_AUTO, maxDimension);
+  }
+}
+
+/**
+ * EXIF orientations 3, 6 and 8 applied to the pixels. Quarter turns are done
+ * here: imagescript 1.3.0's `rotate(90)` and `rotate(270)` scramble non-square
+ * images. Mirrored orientations (2, 4, 5, 7) are rare from cameras and left
+ * as-is.
+ */
+function applyExifOrientation(
+  image: Image,
+  orientation: number | null,
+): Image {
+  switch (orientation) {
+    case 3:
+      return image.rotate(180);
+    case 6:
+      return rotateQuarterTurn(image, true);
+    case 8:
+      return rotateQuarterTurn(image, false);
+    default:
+      return image;
+  }
+}
+
+function rotateQuarterTurn(image: Image, clockwise: boolean): Image {
+  const { width, height, bitmap: source } = image;
+  const rotated = new Image(height, width);
+  const target = rotated.bitmap;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const targetX = clockwise ? height - 1 - y : y;
+      const targetY = clockwise ? x : width - 1 - x;
+      const from = (y * width + x) * 4;
+      const to = (targetY * height + targetX) * 4;
+      target[to] = source[from];
+      target[to + 1] = source[from + 1];
+      target[to + 2] = source[from + 2];
+      target[to + 3] = source[from + 3];
+    }
+  }
+
+  return rotated;
+}
+
+/** Pixel size from the PNG IHDR or JPEG SOF header, without decoding. */
+export function readImageDimensions(
+  bytes: Uint8Array,
+  sourceType: SharedImageType,
+): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (sourceType === "image/png") {
+    if (bytes.length < 24) return null;
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) return null;
+
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC).
+    if (
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 &&
+      marker !== 0xc8 && marker !== 0xcc
+    ) {
+      return {
+        width: view.getUint16(offset + 7),
+        height: view.getUint16(offset + 5),
+      };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+}
+
+/** EXIF Orientation (tag 0x0112) from a JPEG APP1 segment, or null. */
+export function readJpegExifOrientation(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Start of scan: no more metadata segments.
+    if (marker === 0xda) return null;
+    const segmentLength = view.getUint16(offset + 2);
+
+    if (
+      marker === 0xe1 && offset + 10 <= bytes.length &&
+      view.getUint32(offset + 4) === 0x45786966 // "Exif"
+    ) {
+      return readTiffOrientation(view, offset + 10, offset + 2 + segmentLength);
+    }
+
+    offset += 2 + segmentLength;
+  }
+
+  return null;
+}
+
+function readTiffOrientation(
+  view: DataView,
+  tiffStart: number,
+  segmentEnd: number,
+): number | null {
+  if (tiffStart + 8 > segmentEnd || segmentEnd > view.byteLength) return null;
+
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifdOffset = view.getUint32(tiffStart + 4, littleEndian);
+  const ifdStart = tiffStart + ifdOffset;
+  if (ifdStart + 2 > segmentEnd) return null;
+
+  const entryCount = view.getUint16(ifdStart, littleEndian);
+  for (let index = 0; index < entryCount; index += 1) {
+    const entry = ifdStart + 2 + index * 12;
+    if (entry + 12 > segmentEnd) return null;
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value : null;
+    }
+  }
+
+  return null;
+}
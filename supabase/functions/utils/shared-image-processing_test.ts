@@ -0,0 +1,94 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+import {
+  processSharedImage,
+  readImageDimensions,
+  readJpegExifOrientation,
+} from "./shared-image-processing.ts";
+
+const RED = 0xff0000ff;
+const BLUE = 0x0000ffff;
+
+/** 16×8 JPEG, left half red and right half blue, tagged with `orientation`. */
+async function orientedJpegFixture(orientation: number): Promise<Uint8Array> {
+  const image = new Image(16, 8).fill((x) => x <= 8 ? RED : BLUE);
+  const jpeg = await image.encodeJPEG(90);
+
+  // APP1: "Exif\0\0", big-endian TIFF header, one IFD entry (0x0112 SHORT).
+  // deno-fmt-ignore
+  const app1 = new Uint8Array([
+    0xff, 0xe1, 0x00, 0x22,
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+    0x00, 0x01,
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00,
+  ]);
+
+  const fixture = new Uint8Array(jpeg.length + app1.length);
+  fixture.set(jpeg.subarray(0, 2));
+  fixture.set(app1, 2);
+  fixture.set(jpeg.subarray(2), 2 + app1.length);
+  return fixture;
+}
+
+async function decodeOriginal(bytes: Uint8Array): Promise<Image> {
+  const result = await processSharedImage(bytes, "[TEST]");
+  assert(result.ok);
+  return await Image.decode(result.variants.original);
+}
+
+function isRed(image: Image, x: number, y: number): boolean {
+  const [red, , blue] = image.getRGBAAt(x, y);
+  return red > 200 && blue < 60;
+}
+
+function isBlue(image: Image, x: number, y: number): boolean {
+  const [red, , blue] = image.getRGBAAt(x, y);
+  return blue > 200 && red < 60;
+}
+
+Deno.test("reads the EXIF orientation from a JPEG", async () => {
+  assertEquals(readJpegExifOrientation(await orientedJpegFixture(6)), 6);
+});
+
+Deno.test("reads JPEG dimensions from the frame header", async () => {
+  assertEquals(
+    readImageDimensions(await orientedJpegFixture(1), "image/jpeg"),
+    { width: 16, height: 8 },
+  );
+});
+
+Deno.test("refuses a huge PNG canvas before decoding it", async () => {
+  // Signature and IHDR only: 20000×20000, which would need 1.6 GB of RGBA.
+  // deno-fmt-ignore
+  const header = new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52,
+    0x00, 0x00, 0x4e, 0x20, 0x00, 0x00, 0x4e, 0x20,
+    0x08, 0x06, 0x00, 0x00, 0x00,
+  ]);
+
+  const result = await processSharedImage(header, "[TEST]");
+
+  assertEquals(
+    result.ok ? null : result.errorCode,
+    "SHARE_IMAGE_DIMENSIONS_TOO_LARGE",
+  );
+});
+
+Deno.test("turns an orientation 6 photo clockwise", async () => {
+  const image = await decodeOriginal(await orientedJpegFixture(6));
+
+  assertEquals([image.width, image.height], [8, 16]);
+  assert(isRed(image, 4, 3), "the left edge ends up on top");
+  assert(isBlue(image, 4, 14));
+});
+
+Deno.test("turns an orientation 8 photo counter-clockwise", async () => {
+  const image = await decodeOriginal(await orientedJpegFixture(8));
+
+  assertEquals([image.width, image.height], [8, 16]);
+  assert(isBlue(image, 4, 3), "the right edge ends up on top");
+  assert(isRed(image, 4, 14));
+});
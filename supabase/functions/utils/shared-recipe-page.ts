@@ -0,0 +1,371 @@
+// Server-rendered HTML for shared recipe links.
+//
+// Link previews (WhatsApp, Telegram, iMessage, Slack, ...) only read the HTML
+// head, so the page carries OpenGraph and Twitter card tags, plus app-link and
+// smart-banner tags that open the share in the app when it is installed. The
+// body is a small, script-free page for people without the app. Everything
+// from the payload is escaped; the response also sets a strict CSP.
+
+import { renderJsonLdScript } from "./recipe-json-ld.ts";
+
+export type SharedRecipePageStatus =
+  | "active"
+  | "locked"
+  | "expired"
+  | "revoked"
+  | "not_found";
+
+export interface SharedRecipePageInput {
+  status: SharedRecipePageStatus;
+  shareUrl: string;
+  /** Opens the share in the app, e.g. `kerisik://shared/recipe/<token>`. */
+  appUrl: string;
+  /** Normalised recipe for active single-recipe shares. */
+  recipe: Record<string, unknown> | null;
+  /** Bundle snapshot with normalised `recipes` for active bundle shares. */
+  bundle: Record<string, unknown> | null;
+  imageUrl: string | null;
+  /** 1200×630 variant, when the share has a stored image. */
+  ogImageUrl: string | null;
+  /** schema.org structured data, embedded for active shares. */
+  jsonLd: Record<string, unknown> | null;
+}
+
+export const SHARED_RECIPE_PAGE_HTTP_STATUS: Record<
+  SharedRecipePageStatus,
+  number
+> = {
+  active: 200,
+  locked: 200,
+  expired: 410,
+  revoked: 410,
+  not_found: 404,
+};
+
+export const SHARED_RECIPE_PAGE_HEADERS: Record<string, string> = {
+  "Content-Type": "text/html; charset=utf-8",
+  "Content-Security-Policy":
+    "default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'; frame-ancestors 'none'",
+  "X-Content-Type-Options": "nosniff",
+  "Referrer-Policy": "no-referrer",
+};
+
+const APP_NAME = "Kerisik";
+const DEFAULT_APP_SCHEME = "kerisik";
+const META_DESCRIPTION_MAX_CHARS = 200;
+
+const UNAVAILABLE_PAGES: Record<
+  Exclude<SharedRecipePageStatus, "active">,
+  { title: string; message: string }
+> = {
+  locked: {
+    title: "This recipe is PIN-protected",
+    message: `Open it in ${APP_NAME} and enter the PIN you were given.`,
+  },
+  expired: {
+    title: "This share link has expired",
+    message: "Ask the person who shared it to send a new link.",
+  },
+  revoked: {
+    title: "This share link is no longer available",
+    message: "The owner has stopped sharing this recipe.",
+  },
+  not_found: {
+    title: "Recipe not found",
+    message: "Check that the link was copied completely.",
+  },
+};
+
+/** `<scheme>://shared/recipe/<token>`; the scheme defaults to `kerisik`. */
+export function buildSharedRecipeAppUrl(token: string): string {
+  const scheme = Deno.env.get("RECIPE_SHARE_APP_SCHEME")?.trim() ||
+    DEFAULT_APP_SCHEME;
+  return `${scheme}://shared/recipe/${encodeURIComponent(token)}`;
+}
+
+export function renderSharedRecipePage(input: SharedRecipePageInput): string {
+  const content = input.status === "active"
+    ? input.bundle ?? input.recipe ?? {}
+    : null;
+  const unavailable = input.status === "active"
+    ? null
+    : UNAVAILABLE_PAGES[input.status];
+
+  const title = content
+    ? asText(content.title) ?? "Shared recipe"
+    : unavailable!.title;
+  const description = content
+    ? truncate(
+      asText(content.description) ?? `A recipe shared from ${APP_NAME}.`,
+      META_DESCRIPTION_MAX_CHARS,
+    )
+    : unavailable!.message;
+  const previewImageUrl = content ? input.ogImageUrl ?? input.imageUrl : null;
+
+  const head = [
+    `<meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<meta name="robots" content="noindex">`,
+    `<title>${escapeHtml(`${title} · ${APP_NAME}`)}</title>`,
+    metaName("description", description),
+    `<link rel="canonical" href="${escapeHtml(input.shareUrl)}">`,
+    metaProperty("og:type", "article"),
+    metaProperty("og:site_name", APP_NAME),
+    metaProperty("og:url", input.shareUrl),
+    metaProperty("og:title", title),
+    metaProperty("og:description", description),
+    ...(previewImageUrl
+      ? [
+        metaProperty("og:image", previewImageUrl),
+        metaProperty("og:image:alt", title),
+        ...(input.ogImageUrl
+          ? [
+            metaProperty("og:image:width", "1200"),
+            metaProperty("og:image:height", "630"),
+          ]
+          : []),
+      ]
+      : []),
+    metaName(
+      "twitter:card",
+      previewImageUrl ? "summary_large_image" : "summary",
+    ),
+    metaName("twitter:title", title),
+    metaName("twitter:description", description),
+    ...(previewImageUrl ? [metaName("twitter:image", previewImageUrl)] : []),
+    ...renderAppLinkTags(input),
+    ...(content && input.jsonLd ? [renderJsonLdScript(input.jsonLd)] : []),
+    `<style>${PAGE_STYLE}</style>`,
+  ];
+
+  const body = content
+    ? renderActiveBody(input, content, title)
+    : renderUnavailableBody(input, unavailable!);
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+${head.join("\n")}
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+function renderAppLinkTags(input: SharedRecipePageInput): string[] {
+  const iosAppStoreId = Deno.env.get("RECIPE_SHARE_IOS_APP_STORE_ID")?.trim();
+  const androidPackage = Deno.env.get("RECIPE_SHARE_ANDROID_PACKAGE")?.trim();
+  const tags: string[] = [];
+
+  if (iosAppStoreId) {
+    tags.push(
+      metaName(
+        "apple-itunes-app",
+        `app-id=${iosAppStoreId}, app-argument=${input.appUrl}`,
+      ),
+      metaProperty("al:ios:url", input.appUrl),
+      metaProperty("al:ios:app_store_id", iosAppStoreId),
+      metaProperty("al:ios:app_name", APP_NAME),
+    );
+  }
+
+  if (androidPackage) {
+    tags.push(
+      metaProperty("al:android:url", input.appUrl),
+      metaProperty("al:android:package", androidPackage),
+      metaProperty("al:android:app_name", APP_NAME),
+    );
+  }
+
+  return tags;
+}
+
+function renderActiveBody(
+  input: SharedRecipePageInput,
+  content: Record<string, unknown>,
+  title: string,
+): string {
+  const parts = [
+    input.imageUrl
+      ? `<img class="hero" src="${escapeHtml(input.imageUrl)}" alt="">`
+      : "",
+    `<h1>${escapeHtml(title)}</h1>`,
+    paragraph(asText(content.description)),
+    openInAppButton(input.appUrl),
+  ];
+
+  if (input.bundle) {
+    const recipes = Array.isArray(input.bundle.recipes)
+      ? input.bundle.recipes as Array<Record<string, unknown>>
+      : [];
+    parts.push(...recipes.map((recipe) => renderBundleRecipe(recipe)));
+  } else {
+    parts.push(renderRecipeDetails(content));
+  }
+
+  return parts.filter(Boolean).join("\n");
+}
+
+function renderBundleRecipe(recipe: Record<string, unknown>): string {
+  const imageVariants = recipe.imageVariants as
+    | { thumbnail?: string | null }
+    | null
+    | undefined;
+  const imageUrl = imageVariants?.thumbnail ?? asText(recipe.imageUrl);
+
+  return [
+    `<section class="recipe">`,
+    imageUrl ? `<img class="thumb" src="${escapeHtml(imageUrl)}" alt="">` : "",
+    `<h2>${escapeHtml(asText(recipe.title) ?? "Recipe")}</h2>`,
+    paragraph(asText(recipe.description)),
+    renderRecipeDetails(recipe),
+    `</section>`,
+  ].filter(Boolean).join("\n");
+}
+
+function renderRecipeDetails(recipe: Record<string, unknown>): string {
+  const facts = [
+    typeof recipe.cookingTime === "number" && recipe.cookingTime > 0
+      ? `${recipe.cookingTime} min`
+      : null,
+    typeof recipe.servingSuggestions === "number" &&
+      recipe.servingSuggestions > 0
+      ? `Serves ${recipe.servingSuggestions}`
+      : null,
+  ].filter((fact): fact is string => fact !== null);
+
+  const ingredientGroups = asRecords(recipe.ingredients).map((group) => {
+    const items = asRecords(group.sub_ingredients)
+      .map((ingredient) => {
+        const line = [
+          asText(ingredient.quantity),
+          asText(ingredient.unit),
+          asText(ingredient.name),
+        ].filter(Boolean).join(" ");
+        const note = asText(ingredient.note);
+        return line
+          ? `<li>${escapeHtml(line)}${
+            note ? ` <span class="note">(${escapeHtml(note)})</span>` : ""
+          }</li>`
+          : "";
+      })
+      .filter(Boolean);
+    return items.length > 0
+      ? `${groupHeading(group.name)}<ul>${items.join("")}</ul>`
+      : "";
+  }).filter(Boolean);
+
+  const stepGroups = asRecords(recipe.steps).map((group) => {
+    const steps = Array.isArray(group.sub_steps)
+      ? group.sub_steps.map(asText).filter((step): step is string =>
+        step !== null
+      )
+      : [];
+    return steps.length > 0
+      ? `${groupHeading(group.name)}<ol>${
+        steps.map((step) => `<li>${escapeHtml(step)}</li>`).join("")
+      }</ol>`
+      : "";
+  }).filter(Boolean);
+
+  return [
+    facts.length > 0
+      ? `<p class="facts">${escapeHtml(facts.join(" · "))}</p>`
+      : "",
+    ingredientGroups.length > 0
+      ? `<h3>Ingredients</h3>\n${ingredientGroups.join("\n")}`
+      : "",
+    stepGroups.length > 0 ? `<h3>Steps</h3>\n${stepGroups.join("\n")}` : "",
+  ].filter(Boolean).join("\n");
+}
+
+function renderUnavailableBody(
+  input: SharedRecipePageInput,
+  page: { title: string; message: string },
+): string {
+  return [
+    `<h1>${escapeHtml(page.title)}</h1>`,
+    paragraph(page.message),
+    openInAppButton(input.appUrl),
+  ].join("\n");
+}
+
+function openInAppButton(appUrl: string): string {
+  return `<p><a class="button" href="${
+    escapeHtml(appUrl)
+  }">Open in ${APP_NAME}</a></p>`;
+}
+
+function groupHeading(name: unknown): string {
+  const text = asText(name);
+  return text ? `<h4>${escapeHtml(text)}</h4>` : "";
+}
+
+function paragraph(text: string | null): string {
+  return text ? `<p>${escapeHtml(text)}</p>` : "";
+}
+
+function metaName(name: string, content: string): string {
+  return `<meta name="${escapeHtml(name)}" content="${escapeHtml(content)}">`;
+}
+
+function metaProperty(property: string, content: string): string {
+  return `<meta property="${escapeHtml(property)}" content="${
+    escapeHtml(content)
+  }">`;
+}
+
+function asRecords(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> =>
+      Boolean(item) && typeof item === "object"
+    )
+    : [];
+}
+
+function asText(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function truncate(value: string, maxChars: number): string {
+  return value.length > maxChars
+    ? `${value.slice(0, maxChars - 1).trimEnd()}…`
+    : value;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const PAGE_STYLE = [
+  "body{margin:0;font:16px/1.5 system-ui,-apple-system,sans-serif;color:#222;background:#fafaf7}",
+  "main{max-width:640px;margin:0 auto;padding:16px}",
+  "h1{font-size:1.6em;line-height:1.25;margin:.5em 0}",
+  "h2{font-size:1.3em;margin:1.5em 0 .25em}",
+  "h3{margin:1.25em 0 .25em}",
+  "h4{margin:.75em 0 .25em;color:#555}",
+  "img.hero{width:100%;aspect-ratio:1200/630;object-fit:cover;border-radius:12px}",
+  "img.thumb{width:96px;height:96px;object-fit:cover;border-radius:8px;float:right;margin-left:12px}",
+  "section.recipe{clear:both;border-top:1px solid #e5e5e0;padding-top:8px}",
+  ".facts,.note{color:#666}",
+  "ol,ul{padding-left:1.25em}",
+  "li{margin:.25em 0}",
+  "a.button{display:inline-block;padding:10px 18px;border-radius:999px;background:#c2410c;color:#fff;text-decoration:none;font-weight:600}",
+].join("");
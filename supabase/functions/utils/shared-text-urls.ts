@@ -0,0 +1,273 @@
+// Pulls URLs out of free-form text, e.g. what a mobile share sheet hands us:
+// "Check this out!! https://vt.tiktok.com/xyz/ #resepi".
+//
+// Candidates are unwrapped from tracking redirectors (l.facebook.com, t.co, ...)
+// and ranked so the most recipe-like link feeds the import pipeline.
+
+import { mapWithConcurrency } from "./concurrency.ts";
+import { safeFetch } from "./safe-fetch.ts";
+import {
+  detectPlatform,
+  URL_CANONICALIZERS,
+} from "./url-canonicalizers/registry.ts";
+import { hostMatches } from "./url-canonicalizers/types.ts";
+
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]}>»”’]+$/u;
+const URL_CHAR = "[^\\s<>\"'`]";
+const MAX_UNWRAP_DEPTH = 3;
+
+// Text comes straight from clients: only this many candidates are unwrapped,
+// and redirect wrappers are followed a few at a time.
+export const MAX_URL_CANDIDATES = 20;
+const UNWRAP_CONCURRENCY = 4;
+
+// Wrappers whose target is carried in a query param.
+const QUERY_PARAM_WRAPPERS: Array<{ hosts: string[]; path?: RegExp; params: string[] }> = [
+  { hosts: ["l.facebook.com", "lm.facebook.com", "l.messenger.com"], params: ["u"] },
+  { hosts: ["l.instagram.com", "l.threads.net", "l.threads.com"], params: ["u"] },
+  { hosts: ["www.google.com", "google.com"], path: /^\/url$/, params: ["q", "url"] },
+  { hosts: ["www.youtube.com", "youtube.com", "m.youtube.com"], path: /^\/redirect$/, params: ["q"] },
+  { hosts: ["out.reddit.com"], params: ["url"] },
+];
+
+// Wrappers that only answer with a redirect; the target is read from one safe hop.
+const REDIRECT_WRAPPER_HOSTS = ["t.co", "lnkd.in"];
+
+// Links that show up in shared captions but are never the recipe itself.
+const NON_RECIPE_HOSTS = [
+  "wa.me",
+  "api.whatsapp.com",
+  "chat.whatsapp.com",
+  "t.me",
+  "apps.apple.com",
+  "play.google.com",
+  "linktr.ee",
+  "shopee.com.my",
+  "lazada.com.my",
+];
+
+const PLATFORM_SCORES: Record<string, number> = {
+  tiktok: 3,
+  instagram: 3,
+  youtube: 3,
+  facebook: 2,
+  pinterest: 2,
+  xiaohongshu: 2,
+  threads: 2,
+  web: 1,
+};
+
+export interface RankedUrlCandidate {
+  url: string;
+  platform: string;
+  score: number;
+}
+
+/** Every URL in `text`, in order of appearance, without duplicates. */
+export function extractUrlsFromText(text: string): string[] {
+  const seen = new Set<string>();
+  const urls: string[] = [];
+
+  for (const match of text.matchAll(buildUrlPattern())) {
+    const trimmed = match[0].replace(TRAILING_PUNCTUATION, "");
+    const candidate = /^https?:\/\//i.test(trimmed)
+      ? trimmed
+      : `https://${trimmed}`;
+
+    if (seen.has(candidate)) {
+      continue;
+    }
+
+    try {
+      new URL(candidate);
+    } catch {
+      continue;
+    }
+
+    seen.add(candidate);
+    urls.push(candidate);
+  }
+
+  return urls;
+}
+
+/**
+ * Follow tracking wrappers to the URL they point at. Query-param wrappers are
+ * unwrapped locally; redirect-only wrappers cost one SSRF-checked request.
+ * Returns the input unchanged when it is not a wrapper or cannot be unwrapped.
+ */
+export async function unwrapTrackingUrl(rawUrl: string): Promise<string> {
+  let current = rawUrl;
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth += 1) {
+    const next = unwrapQueryParamWrapper(current) ??
+      await unwrapRedirectWrapper(current);
+    if (!next || next === current) {
+      return current;
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Unwrapped, deduped candidates in order of appearance, minus non-recipe links.
+ * At most `maxCandidates` URLs are kept after the local unwrap and dedupe;
+ * only those can cost an outbound request.
+ */
+export async function extractRecipeUrlCandidates(
+  text: string,
+  maxCandidates = MAX_URL_CANDIDATES,
+): Promise<RankedUrlCandidate[]> {
+  const local = new Set<string>();
+  for (const url of extractUrlsFromText(text)) {
+    if (local.size >= maxCandidates) {
+      break;
+    }
+    const target = unwrapQueryParamWrappers(url);
+    if (!isDroppedCandidate(target)) {
+      local.add(target);
+    }
+  }
+
+  const unwrapped = await mapWithConcurrency(
+    Array.from(local),
+    UNWRAP_CONCURRENCY,
+    unwrapTrackingUrl,
+  );
+  const seen = new Set<string>();
+  const candidates: RankedUrlCandidate[] = [];
+
+  for (const url of unwrapped) {
+    if (seen.has(url) || isDroppedCandidate(url)) {
+      continue;
+    }
+    seen.add(url);
+
+    const platform = detectPlatform(url);
+    candidates.push({ url, platform, score: PLATFORM_SCORES[platform] ?? 1 });
+  }
+
+  return candidates;
+}
+
+/** Same candidates as `extractRecipeUrlCandidates`, best first (stable for equal scores). */
+export async function rankRecipeUrlCandidates(
+  text: string,
+): Promise<RankedUrlCandidate[]> {
+  const candidates = await extractRecipeUrlCandidates(text);
+  return candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
+
+/** The best recipe URL in `text`, or null when it has no usable URL. */
+export async function pickRecipeUrlFromText(
+  text: string,
+): Promise<{ url: string; candidates: RankedUrlCandidate[] } | null> {
+  const candidates = await rankRecipeUrlCandidates(text);
+  return candidates.length > 0 ? { url: candidates[0].url, candidates } : null;
+}
+
+function buildUrlPattern(): RegExp {
+  // Besides explicit http(s) and www. links, accept scheme-less links on known
+  // platform hosts ("vt.tiktok.com/ZSabc/") which share sheets often produce.
+  const knownHosts = URL_CANONICALIZERS
+    .flatMap((canonicalizer) => [
+      ...canonicalizer.hosts,
+      ...canonicalizer.shortLinkHosts,
+    ])
+    .map((host) => host.replace(/\./g, "\\."));
+  const bareHost = `(?:[a-z0-9-]+\\.)*(?:${knownHosts.join("|")})\\/`;
+
+  return new RegExp(
+    `(?:https?:\\/\\/${URL_CHAR}+|\\bwww\\.${URL_CHAR}+|(?<![\\w.@/-])${bareHost}${URL_CHAR}*)`,
+    "gi",
+  );
+}
+
+/**
+ * Unparseable, non-recipe, or still a query-param wrapper after unwrapping
+ * (its target was missing or unusable).
+ */
+function isDroppedCandidate(url: string): boolean {
+  if (!URL.canParse(url)) {
+    return true;
+  }
+  const parsed = new URL(url);
+  return hostMatches(parsed.hostname, NON_RECIPE_HOSTS) ||
+    findQueryParamWrapper(parsed) !== null;
+}
+
+/** Query-param wrappers only, so no request is made. */
+function unwrapQueryParamWrappers(rawUrl: string): string {
+  let current = rawUrl;
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth += 1) {
+    const next = unwrapQueryParamWrapper(current);
+    if (!next || next === current) {
+      break;
+    }
+    current = next;
+  }
+  return current;
+}
+
+function unwrapQueryParamWrapper(rawUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+
+  for (const param of findQueryParamWrapper(url)?.params ?? []) {
+    const target = url.searchParams.get(param);
+    // A target that does not parse (`u=http%3A%2F%2F%5B`) is left wrapped.
+    if (target && /^https?:\/\//i.test(target) && URL.canParse(target)) {
+      return target;
+    }
+  }
+
+  return null;
+}
+
+function findQueryParamWrapper(
+  url: URL,
+): (typeof QUERY_PARAM_WRAPPERS)[number] | null {
+  const host = url.hostname.toLowerCase();
+  return QUERY_PARAM_WRAPPERS.find((wrapper) =>
+    wrapper.hosts.includes(host) &&
+    (!wrapper.path || wrapper.path.test(url.pathname))
+  ) ?? null;
+}
+
+async function unwrapRedirectWrapper(rawUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+
+  if (!hostMatches(url.hostname, REDIRECT_WRAPPER_HOSTS)) {
+    return null;
+  }
+
+  // maxHops: 0 stops after the first response; its Location is the target.
+  const result = await safeFetch(rawUrl, { maxHops: 0 });
+  if (result.ok) {
+    await result.response.body?.cancel();
+  }
+  const location = result.chain[0]?.location;
+  if (!location) {
+    return null;
+  }
+
+  try {
+    return new URL(location, rawUrl).toString();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+import { pathSegments, type UrlCanonicalizer } from "./types.ts";
+
+/**
+ * Facebook → `https://www.facebook.com/...` keeping only the identifying part
+ * of reels, watch, page video/post and permalink URLs.
+ *
+ * `fb.watch` and `/share/{r,v,p}/` links only redirect, so redirects are
+ * resolved before canonicalizing.
+ */
+export const facebookCanonicalizer: UrlCanonicalizer = {
+  platform: "facebook",
+  hosts: ["facebook.com", "fb.com"],
+  shortLinkHosts: ["fb.watch", "fb.me"],
+  resolveRedirects: true,
+  canonicalize: (url) => {
+    const segments = pathSegments(url);
+    const [first, second, third] = segments;
+
+    if ((first === "reel" || first === "reels") && isNumericId(second)) {
+      return `https://www.facebook.com/reel/${second}`;
+    }
+
+    if (first === "watch") {
+      const videoId = url.searchParams.get("v");
+      return isNumericId(videoId)
+        ? `https://www.facebook.com/watch/?v=${videoId}`
+        : null;
+    }
+
+    if (first === "permalink.php" || first === "story.php") {
+      const storyId = url.searchParams.get("story_fbid");
+      const ownerId = url.searchParams.get("id");
+      if (storyId && ownerId) {
+        const canonical = new URL(`https://www.facebook.com/${first}`);
+        canonical.searchParams.set("story_fbid", storyId);
+        canonical.searchParams.set("id", ownerId);
+        return canonical.toString();
+      }
+      return null;
+    }
+
+    if (
+      first && (second === "videos" || second === "posts") && third
+    ) {
+      return `https://www.facebook.com/${first}/${second}/${third}`;
+    }
+
+    return null;
+  },
+};
+
+function isNumericId(value: string | null | undefined): value is string {
+  return typeof value === "string" && /^\d+$/.test(value);
+}
@@ -0,0 +1,220 @@
+export interface CanonicalizerFixture {
+  input: string;
+  platform: string;
+  resolveRedirects: boolean;
+  expected: string;
+  /** HTML returned by the stubbed page fetch, for canonical-link fallbacks. */
+  html?: string;
+}
+
+export const CANONICALIZER_FIXTURES: CanonicalizerFixture[] = [
+  // TikTok
+  {
+    input:
+      "https://www.tiktok.com/@chefwan/video/7301234567890123456?is_from_webapp=1&sender_device=pc",
+    platform: "tiktok",
+    resolveRedirects: true,
+    expected: "https://www.tiktok.com/@chefwan/video/7301234567890123456",
+  },
+  {
+    input: "https://www.tiktok.com/@resepi.mudah/photo/7301234567890123456?lang=en",
+    platform: "tiktok",
+    resolveRedirects: true,
+    expected: "https://www.tiktok.com/@resepi.mudah/photo/7301234567890123456",
+  },
+  {
+    input: "https://m.tiktok.com/v/7301234567890123456.html?u_code=abc",
+    platform: "tiktok",
+    resolveRedirects: true,
+    html:
+      '<html><head><link rel="canonical" href="https://www.tiktok.com/@chefwan/video/7301234567890123456?lang=en"></head></html>',
+    expected: "https://www.tiktok.com/@chefwan/video/7301234567890123456",
+  },
+  {
+    input: "https://www.tiktok.com/video/7301234567890123456?u_code=abc",
+    platform: "tiktok",
+    resolveRedirects: true,
+    expected: "https://www.tiktok.com/video/7301234567890123456",
+  },
+  {
+    input: "https://vt.tiktok.com/ZSabc123/",
+    platform: "tiktok",
+    resolveRedirects: true,
+    expected: "https://vt.tiktok.com/ZSabc123/",
+  },
+
+  // Instagram
+  {
+    input: "https://www.instagram.com/reel/C1a2B3c4D5e/?igsh=MTc4MmM1YmI2Ng==",
+    platform: "instagram",
+    resolveRedirects: false,
+    expected: "https://www.instagram.com/reel/C1a2B3c4D5e/",
+  },
+  {
+    input: "https://instagram.com/p/C1a2B3c4D5e?utm_source=ig_web_copy_link",
+    platform: "instagram",
+    resolveRedirects: false,
+    expected: "https://www.instagram.com/p/C1a2B3c4D5e/",
+  },
+  {
+    input: "https://www.instagram.com/reels/C1a2B3c4D5e/",
+    platform: "instagram",
+    resolveRedirects: false,
+    expected: "https://www.instagram.com/reel/C1a2B3c4D5e/",
+  },
+  {
+    input: "https://www.instagram.com/khairulaming/reel/C1a2B3c4D5e/",
+    platform: "instagram",
+    resolveRedirects: false,
+    expected: "https://www.instagram.com/reel/C1a2B3c4D5e/",
+  },
+  {
+    input: "https://www.instagram.com/tv/C1a2B3c4D5e/",
+    platform: "instagram",
+    resolveRedirects: false,
+    expected: "https://www.instagram.com/tv/C1a2B3c4D5e/",
+  },
+
+  // YouTube
+  {
+    input: "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s&si=abc",
+    platform: "youtube",
+    resolveRedirects: false,
+    expected: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+  },
+  {
+    input: "https://m.youtube.com/watch?feature=share&v=dQw4w9WgXcQ",
+    platform: "youtube",
+    resolveRedirects: false,
+    expected: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+  },
+  {
+    input: "https://youtube.com/shorts/aBcDeFgHiJk?si=xyz",
+    platform: "youtube",
+    resolveRedirects: false,
+    expected: "https://www.youtube.com/shorts/aBcDeFgHiJk",
+  },
+  {
+    input: "https://youtu.be/dQw4w9WgXcQ?si=abc",
+    platform: "youtube",
+    resolveRedirects: false,
+    expected: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+  },
+  {
+    input: "https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ",
+    platform: "youtube",
+    resolveRedirects: false,
+    expected: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+  },
+
+  // Facebook
+  {
+    input: "https://www.facebook.com/reel/1234567890123456?mibextid=abc",
+    platform: "facebook",
+    resolveRedirects: true,
+    expected: "https://www.facebook.com/reel/1234567890123456",
+  },
+  {
+    input: "https://m.facebook.com/watch/?v=1234567890&ref=sharing",
+    platform: "facebook",
+    resolveRedirects: true,
+    expected: "https://www.facebook.com/watch/?v=1234567890",
+  },
+  {
+    input: "https://www.facebook.com/dapurkakmah/videos/1234567890/?fs=e",
+    platform: "facebook",
+    resolveRedirects: true,
+    expected: "https://www.facebook.com/dapurkakmah/videos/1234567890",
+  },
+  {
+    input:
+      "https://www.facebook.com/permalink.php?story_fbid=pfbid0abc&id=100064&rdid=xyz",
+    platform: "facebook",
+    resolveRedirects: true,
+    expected:
+      "https://www.facebook.com/permalink.php?story_fbid=pfbid0abc&id=100064",
+  },
+  {
+    input: "https://fb.watch/aBcD1234/",
+    platform: "facebook",
+    resolveRedirects: true,
+    expected: "https://fb.watch/aBcD1234/",
+  },
+
+  // Pinterest
+  {
+    input: "https://www.pinterest.com/pin/123456789012345678/?nic_v3=1a",
+    platform: "pinterest",
+    resolveRedirects: false,
+    expected: "https://www.pinterest.com/pin/123456789012345678/",
+  },
+  {
+    input: "https://my.pinterest.com/pin/nasi-lemak--123456789012345678/",
+    platform: "pinterest",
+    resolveRedirects: false,
+    expected: "https://www.pinterest.com/pin/123456789012345678/",
+  },
+  {
+    input: "https://www.pinterest.co.uk/pin/123456789012345678",
+    platform: "pinterest",
+    resolveRedirects: false,
+    expected: "https://www.pinterest.com/pin/123456789012345678/",
+  },
+  {
+    input: "https://pin.it/1AbCdEf",
+    platform: "pinterest",
+    resolveRedirects: true,
+    expected: "https://pin.it/1AbCdEf",
+  },
+
+  // Xiaohongshu
+  {
+    input:
+      "https://www.xiaohongshu.com/explore/64f1a2b3c4d5e6f7a8b9c0d1?xsec_token=AB&xsec_source=pc_share",
+    platform: "xiaohongshu",
+    resolveRedirects: false,
+    expected: "https://www.xiaohongshu.com/explore/64f1a2b3c4d5e6f7a8b9c0d1",
+  },
+  {
+    input:
+      "https://www.xiaohongshu.com/discovery/item/64F1A2B3C4D5E6F7A8B9C0D1?app_platform=ios",
+    platform: "xiaohongshu",
+    resolveRedirects: false,
+    expected: "https://www.xiaohongshu.com/explore/64f1a2b3c4d5e6f7a8b9c0d1",
+  },
+  {
+    input: "http://xhslink.com/a/AbCdEf123",
+    platform: "xiaohongshu",
+    resolveRedirects: true,
+    expected: "http://xhslink.com/a/AbCdEf123",
+  },
+
+  // Threads
+  {
+    input: "https://www.threads.net/@chefwan/post/C1a2B3c4D5e?xmt=abc",
+    platform: "threads",
+    resolveRedirects: false,
+    expected: "https://www.threads.com/@chefwan/post/C1a2B3c4D5e",
+  },
+  {
+    input: "https://threads.com/@chefwan/post/C1a2B3c4D5e/",
+    platform: "threads",
+    resolveRedirects: false,
+    expected: "https://www.threads.com/@chefwan/post/C1a2B3c4D5e",
+  },
+
+  // Generic blogs
+  {
+    input:
+      "https://rasamalaysia.com/nasi-lemak-recipe/?utm_source=pinterest&utm_medium=social#recipe",
+    platform: "web",
+    resolveRedirects: true,
+    expected: "https://rasamalaysia.com/nasi-lemak-recipe/",
+  },
+  {
+    input: "https://resepibonda.example/?p=1234&fbclid=IwAR0abc",
+    platform: "web",
+    resolveRedirects: true,
+    expected: "https://resepibonda.example/?p=1234",
+  },
+];
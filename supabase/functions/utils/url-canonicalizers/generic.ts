@@ -0,0 +1,32 @@
+import type { UrlCanonicalizer } from "./types.ts";
+
+// Query params that identify the page itself on WordPress-style blogs without
+// pretty permalinks. Everything else is treated as tracking noise.
+const PRESERVED_QUERY_PARAMS = ["p", "page_id"];
+
+/**
+ * Fallback for recipe blogs and any host without a dedicated canonicalizer:
+ * drops the fragment and every query param except page identifiers.
+ */
+export const genericCanonicalizer: UrlCanonicalizer = {
+  platform: "web",
+  hosts: [],
+  shortLinkHosts: [],
+  resolveRedirects: true,
+  canonicalize: (url) => stripQuery(url),
+};
+
+export function stripQuery(url: URL): string {
+  const stripped = new URL(url);
+  stripped.hash = "";
+  stripped.search = "";
+
+  for (const name of PRESERVED_QUERY_PARAMS) {
+    const value = url.searchParams.get(name);
+    if (value) {
+      stripped.searchParams.set(name, value);
+    }
+  }
+
+  return stripped.toString();
+}
@@ -0,0 +1,33 @@
+import { pathSegments, type UrlCanonicalizer } from "./types.ts";
+
+const KIND_BY_SEGMENT: Record<string, string> = {
+  p: "p",
+  reel: "reel",
+  reels: "reel",
+  tv: "tv",
+};
+
+/**
+ * Instagram → `https://www.instagram.com/<p|reel|tv>/<shortcode>/`.
+ *
+ * The post kind is preserved: reels and posts share a shortcode space but are
+ * rendered differently, so `/reel/` must not be rewritten to `/p/`. Profile
+ * prefixed paths (`/<username>/reel/<shortcode>/`) are accepted too.
+ */
+export const instagramCanonicalizer: UrlCanonicalizer = {
+  platform: "instagram",
+  hosts: ["instagram.com"],
+  shortLinkHosts: ["instagr.am"],
+  resolveRedirects: false,
+  canonicalize: (url) => {
+    const segments = pathSegments(url);
+    for (let i = 0; i < segments.length - 1; i += 1) {
+      const kind = KIND_BY_SEGMENT[segments[i].toLowerCase()];
+      const shortcode = segments[i + 1];
+      if (kind && /^[A-Za-z0-9_-]+$/.test(shortcode)) {
+        return `https://www.instagram.com/${kind}/${shortcode}/`;
+      }
+    }
+    return null;
+  },
+};
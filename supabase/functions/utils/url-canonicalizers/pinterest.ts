@@ -0,0 +1,36 @@
+import { pathSegments, type UrlCanonicalizer } from "./types.ts";
+
+/**
+ * Pinterest → `https://www.pinterest.com/pin/<id>/`.
+ *
+ * Country domains (pinterest.com.my, pinterest.co.uk, ...) collapse onto the
+ * .com form so the same pin dedupes regardless of the sharer's locale.
+ */
+export const pinterestCanonicalizer: UrlCanonicalizer = {
+  platform: "pinterest",
+  hosts: [
+    "pinterest.com",
+    "pinterest.com.my",
+    "pinterest.co.uk",
+    "pinterest.com.au",
+    "pinterest.ca",
+    "pinterest.de",
+    "pinterest.fr",
+    "pinterest.es",
+    "pinterest.it",
+    "pinterest.jp",
+    "pinterest.ph",
+  ],
+  shortLinkHosts: ["pin.it"],
+  resolveRedirects: false,
+  canonicalize: (url) => {
+    const [first, second] = pathSegments(url);
+    if (first !== "pin" || !second) {
+      return null;
+    }
+
+    // Pins are usually numeric, but some are "<slug>--<id>".
+    const pinId = second.match(/(?:^|--)(\d+)$/)?.[1];
+    return pinId ? `https://www.pinterest.com/pin/${pinId}/` : null;
+  },
+};
@@ -0,0 +1,94 @@
+import { fetchHtmlSafely } from "../safe-fetch.ts";
+import { facebookCanonicalizer } from "./facebook.ts";
+import { genericCanonicalizer, stripQuery } from "./generic.ts";
+import { instagramCanonicalizer } from "./instagram.ts";
+import { pinterestCanonicalizer } from "./pinterest.ts";
+import { threadsCanonicalizer } from "./threads.ts";
+import { tiktokCanonicalizer } from "./tiktok.ts";
+import {
+  type CanonicalizeContext,
+  hostMatches,
+  type UrlCanonicalizer,
+} from "./types.ts";
+import { xiaohongshuCanonicalizer } from "./xiaohongshu.ts";
+import { youtubeCanonicalizer } from "./youtube.ts";
+
+export type { CanonicalizeContext, UrlCanonicalizer } from "./types.ts";
+
+/**
+ * Registered platform canonicalizers, checked in order. To support a new
+ * platform, add a module next to this file and list it here.
+ */
+export const URL_CANONICALIZERS: readonly UrlCanonicalizer[] = [
+  tiktokCanonicalizer,
+  instagramCanonicalizer,
+  youtubeCanonicalizer,
+  facebookCanonicalizer,
+  pinterestCanonicalizer,
+  xiaohongshuCanonicalizer,
+  threadsCanonicalizer,
+];
+
+export const defaultCanonicalizeContext: CanonicalizeContext = {
+  fetchHtml: (pageUrl) => fetchHtmlSafely(pageUrl),
+};
+
+interface CanonicalizerMatch {
+  canonicalizer: UrlCanonicalizer;
+  isShortLink: boolean;
+}
+
+export function findCanonicalizer(url: URL): CanonicalizerMatch {
+  // Short links first: vt.tiktok.com would otherwise match tiktok.com.
+  for (const canonicalizer of URL_CANONICALIZERS) {
+    if (hostMatches(url.hostname, canonicalizer.shortLinkHosts)) {
+      return { canonicalizer, isShortLink: true };
+    }
+  }
+
+  for (const canonicalizer of URL_CANONICALIZERS) {
+    if (hostMatches(url.hostname, canonicalizer.hosts)) {
+      return { canonicalizer, isShortLink: false };
+    }
+  }
+
+  return { canonicalizer: genericCanonicalizer, isShortLink: false };
+}
+
+/** Lowercase platform value for a URL, `web` when no platform matches. */
+export function detectPlatform(rawUrl: string): string {
+  return findCanonicalizer(new URL(rawUrl)).canonicalizer.platform;
+}
+
+export function shouldResolveRedirects(rawUrl: string): boolean {
+  const { canonicalizer, isShortLink } = findCanonicalizer(new URL(rawUrl));
+  return isShortLink || canonicalizer.resolveRedirects;
+}
+
+/** Applies the platform's short-link fix-ups ahead of redirect resolution. */
+export function prepareForRedirect(rawUrl: string): string {
+  try {
+    const url = new URL(rawUrl);
+    const { canonicalizer, isShortLink } = findCanonicalizer(url);
+    if (!isShortLink || !canonicalizer.prepareForRedirect) {
+      return rawUrl;
+    }
+    return canonicalizer.prepareForRedirect(url).toString();
+  } catch {
+    return rawUrl;
+  }
+}
+
+/**
+ * Returns the canonical form of an (already redirect-resolved) URL. Platforms
+ * that cannot produce a canonical form fall back to the query-stripped URL.
+ */
+export async function canonicalizeUrl(
+  rawUrl: string,
+  context: CanonicalizeContext = defaultCanonicalizeContext,
+): Promise<string> {
+  const url = new URL(rawUrl);
+  const { canonicalizer } = findCanonicalizer(url);
+  const canonical = await canonicalizer.canonicalize(url, context);
+  return canonical ?? stripQuery(url);
+}
@@ -0,0 +1,35 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { CANONICALIZER_FIXTURES } from "./fixtures.ts";
+import {
+  canonicalizeUrl,
+  detectPlatform,
+  prepareForRedirect,
+  shouldResolveRedirects,
+} from "./registry.ts";
+
+for (const fixture of CANONICALIZER_FIXTURES) {
+  Deno.test(`canonicalizes ${fixture.input}`, async () => {
+    const canonical = await canonicalizeUrl(fixture.input, {
+      fetchHtml: () => Promise.resolve(fixture.html ?? null),
+    });
+
+    assertEquals(canonical, fixture.expected);
+    assertEquals(detectPlatform(fixture.input), fixture.platform);
+    assertEquals(
+      shouldResolveRedirects(fixture.input),
+      fixture.resolveRedirects,
+    );
+  });
+}
+
+Deno.test("strips the trailing slash from vt.tiktok.com short links", () => {
+  assertEquals(
+    prepareForRedirect("https://vt.tiktok.com/ZSabc123/"),
+    "https://vt.tiktok.com/ZSabc123",
+  );
+});
+
+Deno.test("leaves non short links untouched before redirect", () => {
+  const url = "https://www.tiktok.com/@chefwan/video/7301234567890123456/";
+  assertEquals(prepareForRedirect(url), url);
+});
@@ -0,0 +1,24 @@
+import { pathSegments, type UrlCanonicalizer } from "./types.ts";
+
+/**
+ * Threads → `https://www.threads.com/@<username>/post/<code>`.
+ *
+ * threads.net links are still shared widely and redirect to threads.com, so
+ * both hosts collapse onto the .com form.
+ */
+export const threadsCanonicalizer: UrlCanonicalizer = {
+  platform: "threads",
+  hosts: ["threads.com", "threads.net"],
+  shortLinkHosts: [],
+  resolveRedirects: false,
+  canonicalize: (url) => {
+    const [first, second, third] = pathSegments(url);
+    if (!first?.startsWith("@") || second !== "post" || !third) {
+      return null;
+    }
+
+    return /^[A-Za-z0-9_-]+$/.test(third)
+      ? `https://www.threads.com/${first}/post/${third}`
+      : null;
+  },
+};
@@ -0,0 +1,48 @@
+import type { UrlCanonicalizer } from "./types.ts";
+
+const CANONICAL_LINK_PATTERN =
+  /<link[^>]+rel=["']canonical["'][^>]+href=["'](https?:\/\/www\.tiktok\.com\/@[^"']+?\/(?:video|photo)\/\d+)[^"']*["']/i;
+
+/**
+ * TikTok → `https://www.tiktok.com/@<username>/<video|photo>/<id>`.
+ *
+ * When the username is missing (e.g. `m.tiktok.com/v/<id>.html`) the page's
+ * canonical link is used to recover it, otherwise the ID-only URL is kept.
+ */
+export const tiktokCanonicalizer: UrlCanonicalizer = {
+  platform: "tiktok",
+  hosts: ["tiktok.com"],
+  shortLinkHosts: ["vt.tiktok.com", "vm.tiktok.com"],
+  resolveRedirects: true,
+  prepareForRedirect: (url) => {
+    // vt.tiktok.com returns 404 for short codes with a trailing slash.
+    const prepared = new URL(url);
+    prepared.pathname = prepared.pathname.replace(/\/+$/g, "");
+    return prepared;
+  },
+  canonicalize: async (url, context) => {
+    const withUser = url.pathname.match(/\/@([^/]+)\/(video|photo)\/(\d+)/);
+    if (withUser) {
+      return `https://www.tiktok.com/@${withUser[1]}/${withUser[2]}/${withUser[3]}`;
+    }
+
+    const html = await context.fetchHtml(url.toString());
+    const canonical = html?.match(CANONICAL_LINK_PATTERN);
+    if (canonical) {
+      const canonicalUrl = new URL(canonical[1]);
+      canonicalUrl.search = "";
+      canonicalUrl.hash = "";
+      return canonicalUrl.toString();
+    }
+
+    const idOnly = url.pathname.match(/\/(?:video|v)\/(\d+)/);
+    if (idOnly) {
+      const stripped = new URL(url);
+      stripped.search = "";
+      stripped.hash = "";
+      return stripped.toString();
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * Contract for a per-platform URL canonicalizer.
+ *
+ * Each platform lives in its own module and is registered in `registry.ts`.
+ * The registry picks the first canonicalizer whose `hosts` or
+ * `shortLinkHosts` match the URL, falling back to the generic web
+ * canonicalizer.
+ */
+export interface UrlCanonicalizer {
+  /** Lowercase machine value, e.g. `tiktok`. Matches `imported_content` audit values. */
+  platform: string;
+  /** Registrable domains served by the platform. Subdomains match too. */
+  hosts: string[];
+  /** Short-link domains that only redirect to a `hosts` URL. Always resolved. */
+  shortLinkHosts: string[];
+  /** Whether full (non short-link) URLs should be redirect-resolved before canonicalizing. */
+  resolveRedirects: boolean;
+  /** Optional tweak applied to a short link before it is redirect-resolved. */
+  prepareForRedirect?: (url: URL) => URL;
+  /**
+   * Build the canonical form, or return null to fall back to the generic
+   * query-stripped URL.
+   */
+  canonicalize: (
+    url: URL,
+    context: CanonicalizeContext,
+  ) => Promise<string | null> | string | null;
+}
+
+export interface CanonicalizeContext {
+  /**
+   * Fetch a page's HTML for canonicalizers that read `<link rel="canonical">`.
+   * Resolves to null on any network or HTTP failure.
+   */
+  fetchHtml: (pageUrl: string) => Promise<string | null>;
+}
+
+export function hostMatches(hostname: string, hosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return hosts.some((candidate) =>
+    host === candidate || host.endsWith(`.${candidate}`)
+  );
+}
+
+export function pathSegments(url: URL): string[] {
+  return url.pathname.split("/").filter(Boolean);
+}
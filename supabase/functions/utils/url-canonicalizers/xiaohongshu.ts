@@ -0,0 +1,27 @@
+import { pathSegments, type UrlCanonicalizer } from "./types.ts";
+
+const NOTE_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+/**
+ * Xiaohongshu (RED) → `https://www.xiaohongshu.com/explore/<note_id>`.
+ *
+ * `xhslink.com` share links redirect to `/discovery/item/<id>` with a long
+ * tail of tracking params; both forms collapse onto `/explore/<id>`.
+ */
+export const xiaohongshuCanonicalizer: UrlCanonicalizer = {
+  platform: "xiaohongshu",
+  hosts: ["xiaohongshu.com"],
+  shortLinkHosts: ["xhslink.com"],
+  resolveRedirects: false,
+  canonicalize: (url) => {
+    const segments = pathSegments(url);
+    const noteId = segments.find((segment, index) =>
+      NOTE_ID_PATTERN.test(segment) &&
+      ["explore", "item", "note"].includes(segments[index - 1] ?? "")
+    );
+
+    return noteId
+      ? `https://www.xiaohongshu.com/explore/${noteId.toLowerCase()}`
+      : null;
+  },
+};
@@ -0,0 +1,49 @@
+import { hostMatches, pathSegments, type UrlCanonicalizer } from "./types.ts";
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{6,}$/;
+
+/**
+ * YouTube → `https://www.youtube.com/watch?v=<id>` or
+ * `https://www.youtube.com/shorts/<id>`.
+ *
+ * Redirects are never resolved: production logs showed YouTube bouncing edge
+ * fetches to Google's `/sorry/` anti-bot page (see docs/009).
+ */
+export const youtubeCanonicalizer: UrlCanonicalizer = {
+  platform: "youtube",
+  // youtu.be is a host rather than a short link: the video ID is in the path,
+  // and resolving it would hit the same anti-bot redirect.
+  hosts: ["youtube.com", "youtube-nocookie.com", "youtu.be"],
+  shortLinkHosts: [],
+  resolveRedirects: false,
+  canonicalize: (url) => {
+    const segments = pathSegments(url);
+
+    if (hostMatches(url.hostname, ["youtu.be"])) {
+      return watchUrl(segments[0]);
+    }
+
+    const [first, second] = segments;
+    switch (first) {
+      case "watch":
+        return watchUrl(url.searchParams.get("v"));
+      case "shorts":
+        return second && VIDEO_ID_PATTERN.test(second)
+          ? `https://www.youtube.com/shorts/${second}`
+          : null;
+      case "embed":
+      case "live":
+      case "v":
+        return watchUrl(second);
+      default:
+        return null;
+    }
+  },
+};
+
+function watchUrl(videoId: string | null | undefined): string | null {
+  if (!videoId || !VIDEO_ID_PATTERN.test(videoId)) {
+    return null;
+  }
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
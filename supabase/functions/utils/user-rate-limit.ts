@@ -0,0 +1,138 @@
+// Per-user rate limits for edge function actions.
+//
+// Counts live in `user_action_rate_limit_windows`, one row per (user, action,
+// window length, window start), incremented by `check_user_action_rate_limit`.
+// An action can have several rules (e.g. per minute and per day); a request is
+// allowed only if every rule allows it. Lookup failures never block a request.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+export type UserRateLimitAction =
+  | "create_recipe_share"
+  | "prepare_share_image_upload";
+
+export interface UserRateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+/**
+ * Rules per action. To limit another action, add it to `UserRateLimitAction`
+ * and list its rules here.
+ */
+export const USER_RATE_LIMITS: Record<
+  UserRateLimitAction,
+  readonly UserRateLimitRule[]
+> = {
+  create_recipe_share: [
+    { limit: 10, windowSeconds: 60 },
+    { limit: 100, windowSeconds: 86_400 },
+  ],
+  // A bundle can upload up to 21 images for one share.
+  prepare_share_image_upload: [
+    { limit: 30, windowSeconds: 60 },
+    { limit: 300, windowSeconds: 86_400 },
+  ],
+};
+
+export interface UserRateLimitStatus {
+  action: UserRateLimitAction;
+  allowed: boolean;
+  /** The rule that blocked the request, else the one closest to its limit. */
+  limit: number;
+  remaining: number;
+  windowSeconds: number;
+  resetAt: string;
+  retryAfterSeconds: number;
+}
+
+interface RateLimitRow {
+  allowed: boolean;
+  request_count: number;
+  remaining: number;
+  limit_value: number;
+  reset_at: string;
+  retry_after_seconds: number;
+}
+
+/** Counts this request against every rule of `action`; null when nothing could be checked. */
+export async function checkUserRateLimit(
+  supabase: SupabaseClient,
+  userProfileId: string,
+  action: UserRateLimitAction,
+  logPrefix: string,
+): Promise<UserRateLimitStatus | null> {
+  const results = await Promise.all(
+    USER_RATE_LIMITS[action].map(async (rule) => {
+      const { data, error } = await supabase.rpc(
+        "check_user_action_rate_limit",
+        {
+          p_user_profile_id: userProfileId,
+          p_action: action,
+          p_limit: rule.limit,
+          p_window_seconds: rule.windowSeconds,
+        },
+      );
+
+      const row = Array.isArray(data)
+        ? (data[0] as RateLimitRow | undefined)
+        : undefined;
+      if (error || !row) {
+        console.error(
+          `${logPrefix} checkUserRateLimit: Check failed, not enforcing`,
+          { action, windowSeconds: rule.windowSeconds, error },
+        );
+        return null;
+      }
+
+      return { rule, row };
+    }),
+  );
+
+  const checked = results.filter((result) => result !== null);
+  if (checked.length === 0) {
+    return null;
+  }
+
+  const blocked = checked.filter(({ row }) => !row.allowed);
+  // When blocked, report the rule the client has to wait longest for.
+  const reported = blocked.length > 0
+    ? blocked.reduce((a, b) =>
+      b.row.retry_after_seconds > a.row.retry_after_seconds ? b : a
+    )
+    : checked.reduce((a, b) => b.row.remaining < a.row.remaining ? b : a);
+
+  const status: UserRateLimitStatus = {
+    action,
+    allowed: blocked.length === 0,
+    limit: reported.row.limit_value,
+    remaining: reported.row.remaining,
+    windowSeconds: reported.rule.windowSeconds,
+    resetAt: new Date(reported.row.reset_at).toISOString(),
+    retryAfterSeconds: reported.row.retry_after_seconds,
+  };
+
+  if (!status.allowed) {
+    console.warn(`${logPrefix} checkUserRateLimit: Rate limited`, {
+      userProfileId,
+      ...status,
+    });
+  }
+  return status;
+}
+
+export function buildUserRateLimitHeaders(
+  status: UserRateLimitStatus,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(status.limit),
+    "X-RateLimit-Remaining": String(status.remaining),
+    "X-RateLimit-Reset": status.resetAt,
+  };
+
+  if (!status.allowed) {
+    headers["Retry-After"] = String(status.retryAfterSeconds);
+  }
+
+  return headers;
+}
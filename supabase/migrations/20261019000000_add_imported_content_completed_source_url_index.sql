@@ -0,0 +1,6 @@
+-- Migration: 20261019000000_add_imported_content_completed_source_url_index
+-- Description: Support the import-recipe duplicate pre-check (completed imports by canonical source_url).
+
+CREATE INDEX IF NOT EXISTS idx_imported_content_completed_source_url
+  ON public.imported_content (source_url, updated_at DESC)
+  WHERE status = 'COMPLETED';
@@ -0,0 +1,56 @@
+-- Migration: 20261019010000_create_import_quota_plans
+-- Description: Plan-aware import quota config (free / pro limits per rolling window) read by the import edge functions.
+
+CREATE TABLE IF NOT EXISTS public.import_quota_plans (
+  plan text PRIMARY KEY,
+  import_limit integer NOT NULL,
+  window_seconds integer NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT import_quota_plans_plan_check CHECK (plan IN ('free', 'pro')),
+  CONSTRAINT import_quota_plans_import_limit_positive CHECK (import_limit > 0),
+  CONSTRAINT import_quota_plans_window_seconds_positive CHECK (window_seconds > 0)
+);
+
+DROP TRIGGER IF EXISTS set_import_quota_plans_updated_at ON public.import_quota_plans;
+CREATE TRIGGER set_import_quota_plans_updated_at
+  BEFORE UPDATE ON public.import_quota_plans
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.import_quota_plans ENABLE ROW LEVEL SECURITY;
+
+-- Clients may read the limits to render "N imports left" copy; only service_role edits them.
+DROP POLICY IF EXISTS "Authenticated users can view active import quota plans" ON public.import_quota_plans;
+CREATE POLICY "Authenticated users can view active import quota plans"
+ON public.import_quota_plans
+FOR SELECT
+TO authenticated
+USING (is_active = true);
+
+REVOKE ALL ON TABLE public.import_quota_plans FROM anon;
+REVOKE ALL ON TABLE public.import_quota_plans FROM authenticated;
+GRANT SELECT ON TABLE public.import_quota_plans TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.import_quota_plans TO service_role;
+
+INSERT INTO public.import_quota_plans (plan, import_limit, window_seconds)
+VALUES
+  ('free', 10, 30 * 24 * 60 * 60),
+  ('pro', 50, 24 * 60 * 60)
+ON CONFLICT (plan) DO NOTHING;
+
+-- Usage is counted from imported_content rows created inside the window.
+CREATE INDEX IF NOT EXISTS idx_imported_content_user_created_at
+  ON public.imported_content (user_id, created_at DESC);
+
+INSERT INTO public.error_messages (error_code, language, title, message)
+VALUES
+  ('QUOTA_EXCEEDED', 'EN', 'Import limit reached', 'You have used all your recipe imports for now. Upgrade to Pro or try again later.'),
+  ('QUOTA_EXCEEDED', 'BM', 'Had import dicapai', 'Anda telah menggunakan semua import resepi buat masa ini. Naik taraf ke Pro atau cuba lagi kemudian.')
+ON CONFLICT (error_code, language) DO UPDATE
+SET
+  title = EXCLUDED.title,
+  message = EXCLUDED.message,
+  is_active = true,
+  updated_at = now();
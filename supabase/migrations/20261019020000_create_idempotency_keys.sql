@@ -0,0 +1,245 @@
+-- Migration: 20261019020000_create_idempotency_keys
+-- Description: Idempotency-Key storage for import and share-creation edge functions, plus expiry cleanup.
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_profile_id uuid NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+  scope text NOT NULL,
+  idempotency_key text NOT NULL,
+  request_hash text NOT NULL,
+  status text NOT NULL DEFAULT 'in_progress',
+  response_status integer,
+  response_headers jsonb,
+  response_body text,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '24 hours'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT idempotency_keys_scope_not_blank CHECK (btrim(scope) <> ''),
+  CONSTRAINT idempotency_keys_key_length CHECK (char_length(idempotency_key) BETWEEN 1 AND 255),
+  CONSTRAINT idempotency_keys_request_hash_not_blank CHECK (btrim(request_hash) <> ''),
+  CONSTRAINT idempotency_keys_status_check CHECK (status IN ('in_progress', 'completed')),
+  CONSTRAINT idempotency_keys_unique UNIQUE (user_profile_id, scope, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at
+  ON public.idempotency_keys (expires_at);
+
+DROP TRIGGER IF EXISTS set_idempotency_keys_updated_at ON public.idempotency_keys;
+CREATE TRIGGER set_idempotency_keys_updated_at
+  BEFORE UPDATE ON public.idempotency_keys
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.idempotency_keys TO service_role;
+
+-- Claims (user, scope, key) for a new request, or reports what the caller should do instead:
+--   claimed      -> run the request, then store or release the record
+--   replay       -> return the stored response
+--   mismatch     -> the key was used with a different request body
+--   in_progress  -> the first request has not finished yet
+-- An in-progress claim older than p_lock_timeout is taken over (the first attempt crashed).
+CREATE OR REPLACE FUNCTION public.claim_idempotency_key(
+  p_user_profile_id uuid,
+  p_scope text,
+  p_idempotency_key text,
+  p_request_hash text,
+  p_ttl interval DEFAULT interval '24 hours',
+  p_lock_timeout interval DEFAULT interval '2 minutes'
+)
+RETURNS TABLE (
+  outcome text,
+  record_id uuid,
+  response_status integer,
+  response_headers jsonb,
+  response_body text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_id uuid;
+  v_row public.idempotency_keys%ROWTYPE;
+BEGIN
+  DELETE FROM public.idempotency_keys ik
+  WHERE ik.user_profile_id = p_user_profile_id
+    AND ik.scope = p_scope
+    AND ik.idempotency_key = p_idempotency_key
+    AND ik.expires_at <= v_now;
+
+  INSERT INTO public.idempotency_keys (
+    user_profile_id,
+    scope,
+    idempotency_key,
+    request_hash,
+    expires_at
+  )
+  VALUES (
+    p_user_profile_id,
+    p_scope,
+    p_idempotency_key,
+    p_request_hash,
+    v_now + p_ttl
+  )
+  ON CONFLICT ON CONSTRAINT idempotency_keys_unique DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NOT NULL THEN
+    RETURN QUERY SELECT 'claimed'::text, v_id, NULL::integer, NULL::jsonb, NULL::text;
+    RETURN;
+  END IF;
+
+  SELECT *
+  INTO v_row
+  FROM public.idempotency_keys ik
+  WHERE ik.user_profile_id = p_user_profile_id
+    AND ik.scope = p_scope
+    AND ik.idempotency_key = p_idempotency_key
+  FOR UPDATE;
+
+  IF v_row.request_hash <> p_request_hash THEN
+    RETURN QUERY SELECT 'mismatch'::text, v_row.id, NULL::integer, NULL::jsonb, NULL::text;
+    RETURN;
+  END IF;
+
+  IF v_row.status = 'completed' THEN
+    RETURN QUERY SELECT 'replay'::text, v_row.id, v_row.response_status, v_row.response_headers, v_row.response_body;
+    RETURN;
+  END IF;
+
+  IF v_row.updated_at < v_now - p_lock_timeout THEN
+    UPDATE public.idempotency_keys
+    SET updated_at = v_now
+    WHERE id = v_row.id;
+
+    RETURN QUERY SELECT 'claimed'::text, v_row.id, NULL::integer, NULL::jsonb, NULL::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'in_progress'::text, v_row.id, NULL::integer, NULL::jsonb, NULL::text;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_idempotency_key(uuid, text, text, text, interval, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_idempotency_key(uuid, text, text, text, interval, interval) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.cleanup_expired_idempotency_keys(
+  p_limit integer DEFAULT 1000
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_count integer;
+BEGIN
+  DELETE FROM public.idempotency_keys
+  WHERE id IN (
+    SELECT ik.id
+    FROM public.idempotency_keys ik
+    WHERE ik.expires_at <= now()
+    ORDER BY ik.expires_at ASC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 1000), 1), 5000)
+  );
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+  RETURN v_deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cleanup_expired_idempotency_keys(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cleanup_expired_idempotency_keys(integer) TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS "pg_cron";
+CREATE EXTENSION IF NOT EXISTS "pg_net";
+
+DO $$
+DECLARE
+  v_job_name text := 'idempotency_keys_cleanup';
+  v_schedule text := '45 * * * *';
+  v_command text;
+  v_job_id integer;
+  v_project_url text;
+  v_anon_key text;
+  v_cron_secret text;
+BEGIN
+  IF to_regclass('vault.decrypted_secrets') IS NULL THEN
+    RAISE NOTICE 'Skipping idempotency key cleanup cron schedule; vault.decrypted_secrets is unavailable.';
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret
+  INTO v_project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  SELECT decrypted_secret
+  INTO v_anon_key
+  FROM vault.decrypted_secrets
+  WHERE name IN ('anon_key', 'publishable_key')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  SELECT decrypted_secret
+  INTO v_cron_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'idempotency_cleanup_cron_secret'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_project_url IS NULL OR v_anon_key IS NULL OR v_cron_secret IS NULL THEN
+    RAISE NOTICE 'Skipping idempotency key cleanup cron schedule; required Vault secrets are missing.';
+    RETURN;
+  END IF;
+
+  v_command := format($cmd$
+    select net.http_post(
+      url := %L,
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || %L,
+        'x-cron-secret', %L
+      ),
+      body := jsonb_build_object('source', 'pg_cron'),
+      timeout_milliseconds := 10000
+    ) as request_id;
+  $cmd$, v_project_url || '/functions/v1/cleanup-expired-idempotency-keys', v_anon_key, v_cron_secret);
+
+  IF to_regclass('cron.job') IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1
+      FROM information_schema.columns
+      WHERE table_schema = 'cron'
+        AND table_name = 'job'
+        AND column_name = 'jobname'
+    ) THEN
+      SELECT j.jobid INTO v_job_id
+      FROM cron.job j
+      WHERE j.jobname = v_job_name
+      ORDER BY j.jobid DESC
+      LIMIT 1;
+    ELSE
+      SELECT j.jobid INTO v_job_id
+      FROM cron.job j
+      WHERE j.command = v_command
+      ORDER BY j.jobid DESC
+      LIMIT 1;
+    END IF;
+
+    IF v_job_id IS NOT NULL THEN
+      PERFORM cron.unschedule(v_job_id);
+    END IF;
+  END IF;
+
+  IF to_regprocedure('cron.schedule(text,text,text)') IS NOT NULL THEN
+    PERFORM cron.schedule(v_job_name, v_schedule, v_command);
+  ELSE
+    PERFORM cron.schedule(v_schedule, v_command);
+  END IF;
+END $$;
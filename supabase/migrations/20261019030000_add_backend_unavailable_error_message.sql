@@ -0,0 +1,23 @@
+-- Migration: 20261019030000_add_backend_unavailable_error_message
+-- Description: Add user-facing catalogue copy for the edge proxy's BACKEND_UNAVAILABLE fast-fail.
+
+INSERT INTO public.error_messages (error_code, language, title, message)
+VALUES
+    (
+        'BACKEND_UNAVAILABLE',
+        'EN',
+        'Import temporarily unavailable',
+        'Our recipe importer is having trouble right now. Please try again in a minute.'
+    ),
+    (
+        'BACKEND_UNAVAILABLE',
+        'BM',
+        'Import tidak tersedia buat sementara',
+        'Pengimport resepi kami sedang menghadapi masalah. Sila cuba lagi sebentar lagi.'
+    )
+ON CONFLICT (error_code, language) DO UPDATE
+SET
+    title = EXCLUDED.title,
+    message = EXCLUDED.message,
+    is_active = true,
+    updated_at = now();
@@ -0,0 +1,113 @@
+-- Migration: 20261019040000_add_shared_recipe_link_expiry_options
+-- Description: Allow owner-selected share lifetimes, including links that never expire (expires_at IS NULL).
+
+ALTER TABLE public.shared_recipe_links
+  ALTER COLUMN expires_at DROP NOT NULL;
+
+ALTER TABLE public.shared_recipe_links
+  DROP CONSTRAINT IF EXISTS shared_recipe_links_expires_after_create;
+
+ALTER TABLE public.shared_recipe_links
+  ADD CONSTRAINT shared_recipe_links_expires_after_create CHECK (
+    expires_at IS NULL OR expires_at > created_at
+  );
+
+-- Views on never-expiring links must still be counted.
+CREATE OR REPLACE FUNCTION public.increment_shared_recipe_link_views(
+  p_share_id uuid,
+  p_viewer_key_hash text,
+  p_dedupe_window interval DEFAULT interval '15 minutes'
+)
+RETURNS TABLE (counted boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_inserted integer := 0;
+  v_updated integer := 0;
+BEGIN
+  PERFORM 1
+  FROM public.shared_recipe_links
+  WHERE id = p_share_id
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > v_now)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.shared_recipe_link_views (
+    share_id,
+    viewer_key_hash,
+    last_viewed_at
+  )
+  VALUES (
+    p_share_id,
+    p_viewer_key_hash,
+    v_now
+  )
+  ON CONFLICT (share_id, viewer_key_hash) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  IF v_inserted > 0 THEN
+    UPDATE public.shared_recipe_links
+    SET view_count = view_count + 1
+    WHERE id = p_share_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > v_now);
+
+    RETURN QUERY SELECT true;
+    RETURN;
+  END IF;
+
+  UPDATE public.shared_recipe_link_views
+  SET
+    last_viewed_at = v_now,
+    updated_at = v_now
+  WHERE share_id = p_share_id
+    AND viewer_key_hash = p_viewer_key_hash
+    AND last_viewed_at < (v_now - p_dedupe_window);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated > 0 THEN
+    UPDATE public.shared_recipe_links
+    SET view_count = view_count + 1
+    WHERE id = p_share_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > v_now);
+
+    RETURN QUERY SELECT true;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT false;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.increment_shared_recipe_link_views(uuid, text, interval) TO service_role;
+
+-- Never-expiring links are only cleaned up once revoked.
+CREATE OR REPLACE FUNCTION public.get_expired_shared_recipe_links_for_cleanup(p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  id uuid,
+  image_path text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT srl.id, srl.image_path
+  FROM public.shared_recipe_links srl
+  WHERE (srl.expires_at IS NOT NULL AND srl.expires_at <= now())
+     OR srl.revoked_at IS NOT NULL
+  ORDER BY srl.expires_at ASC NULLS LAST, srl.id ASC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expired_shared_recipe_links_for_cleanup(integer) TO service_role;
@@ -0,0 +1,118 @@
+-- Migration: 20261019050000_add_shared_recipe_link_daily_views
+-- Description: Per-day counted views for shared recipe links, used by share owner stats.
+
+CREATE TABLE IF NOT EXISTS public.shared_recipe_link_daily_views (
+  share_id uuid NOT NULL REFERENCES public.shared_recipe_links(id) ON DELETE CASCADE,
+  view_date date NOT NULL,
+  view_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT shared_recipe_link_daily_views_pkey PRIMARY KEY (share_id, view_date),
+  CONSTRAINT shared_recipe_link_daily_views_view_count_non_negative CHECK (view_count >= 0)
+);
+
+DROP TRIGGER IF EXISTS set_shared_recipe_link_daily_views_updated_at ON public.shared_recipe_link_daily_views;
+CREATE TRIGGER set_shared_recipe_link_daily_views_updated_at
+  BEFORE UPDATE ON public.shared_recipe_link_daily_views
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.shared_recipe_link_daily_views ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.shared_recipe_link_daily_views TO service_role;
+
+-- Same dedupe rules as before; every counted view is also bucketed by UTC day.
+CREATE OR REPLACE FUNCTION public.increment_shared_recipe_link_views(
+  p_share_id uuid,
+  p_viewer_key_hash text,
+  p_dedupe_window interval DEFAULT interval '15 minutes'
+)
+RETURNS TABLE (counted boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_inserted integer := 0;
+  v_updated integer := 0;
+BEGIN
+  PERFORM 1
+  FROM public.shared_recipe_links
+  WHERE id = p_share_id
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > v_now)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.shared_recipe_link_views (
+    share_id,
+    viewer_key_hash,
+    last_viewed_at
+  )
+  VALUES (
+    p_share_id,
+    p_viewer_key_hash,
+    v_now
+  )
+  ON CONFLICT (share_id, viewer_key_hash) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  IF v_inserted > 0 THEN
+    UPDATE public.shared_recipe_links
+    SET view_count = view_count + 1
+    WHERE id = p_share_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > v_now);
+
+    INSERT INTO public.shared_recipe_link_daily_views (share_id, view_date, view_count)
+    VALUES (p_share_id, (v_now AT TIME ZONE 'UTC')::date, 1)
+    ON CONFLICT (share_id, view_date)
+    DO UPDATE
+    SET
+      view_count = public.shared_recipe_link_daily_views.view_count + 1,
+      updated_at = v_now;
+
+    RETURN QUERY SELECT true;
+    RETURN;
+  END IF;
+
+  UPDATE public.shared_recipe_link_views
+  SET
+    last_viewed_at = v_now,
+    updated_at = v_now
+  WHERE share_id = p_share_id
+    AND viewer_key_hash = p_viewer_key_hash
+    AND last_viewed_at < (v_now - p_dedupe_window);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated > 0 THEN
+    UPDATE public.shared_recipe_links
+    SET view_count = view_count + 1
+    WHERE id = p_share_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > v_now);
+
+    INSERT INTO public.shared_recipe_link_daily_views (share_id, view_date, view_count)
+    VALUES (p_share_id, (v_now AT TIME ZONE 'UTC')::date, 1)
+    ON CONFLICT (share_id, view_date)
+    DO UPDATE
+    SET
+      view_count = public.shared_recipe_link_daily_views.view_count + 1,
+      updated_at = v_now;
+
+    RETURN QUERY SELECT true;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT false;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.increment_shared_recipe_link_views(uuid, text, interval) TO service_role;
@@ -0,0 +1,69 @@
+-- Migration: 20261019060000_create_shared_recipe_image_uploads
+-- Description: Reservations for direct-to-storage shared recipe image uploads, finalised by create-recipe-share.
+
+-- Enforce type and size at upload time too; create-recipe-share re-checks the object on finalise.
+UPDATE storage.buckets
+SET
+  file_size_limit = 10485760,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp']
+WHERE id = 'shared-recipe-images';
+
+CREATE TABLE IF NOT EXISTS public.shared_recipe_image_uploads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text NOT NULL,
+  owner_user_profile_id uuid NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+  image_path text NOT NULL,
+  content_type text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT shared_recipe_image_uploads_token_unique UNIQUE (token),
+  CONSTRAINT shared_recipe_image_uploads_image_path_unique UNIQUE (image_path),
+  CONSTRAINT shared_recipe_image_uploads_token_not_blank CHECK (btrim(token) <> ''),
+  CONSTRAINT shared_recipe_image_uploads_image_path_prefix CHECK (image_path LIKE 'shares/%/' || token || '/%'),
+  CONSTRAINT shared_recipe_image_uploads_content_type_check CHECK (
+    content_type IN ('image/jpeg', 'image/png', 'image/webp')
+  ),
+  CONSTRAINT shared_recipe_image_uploads_expires_after_create CHECK (expires_at > created_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_recipe_image_uploads_expires_at
+  ON public.shared_recipe_image_uploads (expires_at);
+
+DROP TRIGGER IF EXISTS set_shared_recipe_image_uploads_updated_at ON public.shared_recipe_image_uploads;
+CREATE TRIGGER set_shared_recipe_image_uploads_updated_at
+  BEFORE UPDATE ON public.shared_recipe_image_uploads
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.shared_recipe_image_uploads ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.shared_recipe_image_uploads TO service_role;
+
+-- Abandoned reservations (never finalised) are removed by cleanup-expired-recipe-shares,
+-- together with whatever the client uploaded to their path. If a reservation outlived its
+-- share insert, image_path is returned as NULL so the live share keeps its image.
+CREATE OR REPLACE FUNCTION public.get_expired_shared_recipe_image_uploads_for_cleanup(p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  id uuid,
+  image_path text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.id,
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.shared_recipe_links srl WHERE srl.token = u.token
+      ) THEN NULL
+      ELSE u.image_path
+    END AS image_path
+  FROM public.shared_recipe_image_uploads u
+  WHERE u.expires_at <= now()
+  ORDER BY u.expires_at ASC, u.id ASC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expired_shared_recipe_image_uploads_for_cleanup(integer) TO service_role;
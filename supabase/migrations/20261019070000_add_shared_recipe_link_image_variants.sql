@@ -0,0 +1,36 @@
+-- Migration: 20261019070000_add_shared_recipe_link_image_variants
+-- Description: Storage paths of sanitised shared image derivatives (thumbnail, OpenGraph), cleaned up with the share.
+
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS image_variant_paths jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.shared_recipe_links
+  DROP CONSTRAINT IF EXISTS shared_recipe_links_image_variant_paths_is_object;
+
+ALTER TABLE public.shared_recipe_links
+  ADD CONSTRAINT shared_recipe_links_image_variant_paths_is_object CHECK (
+    jsonb_typeof(image_variant_paths) = 'object'
+  );
+
+-- Return type changes, so the function has to be recreated.
+DROP FUNCTION IF EXISTS public.get_expired_shared_recipe_links_for_cleanup(integer);
+
+CREATE OR REPLACE FUNCTION public.get_expired_shared_recipe_links_for_cleanup(p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  id uuid,
+  image_path text,
+  image_variant_paths jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT srl.id, srl.image_path, srl.image_variant_paths
+  FROM public.shared_recipe_links srl
+  WHERE (srl.expires_at IS NOT NULL AND srl.expires_at <= now())
+     OR srl.revoked_at IS NOT NULL
+  ORDER BY srl.expires_at ASC NULLS LAST, srl.id ASC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expired_shared_recipe_links_for_cleanup(integer) TO service_role;
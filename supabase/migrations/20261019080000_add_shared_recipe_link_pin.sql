@@ -0,0 +1,17 @@
+-- Migration: 20261019080000_add_shared_recipe_link_pin
+-- Description: Optional hashed PIN on shared recipe links; get-shared-recipe returns "locked" until it is supplied.
+
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS pin_hash text;
+
+ALTER TABLE public.shared_recipe_links
+  DROP CONSTRAINT IF EXISTS shared_recipe_links_pin_hash_not_blank;
+
+ALTER TABLE public.shared_recipe_links
+  ADD CONSTRAINT shared_recipe_links_pin_hash_not_blank CHECK (
+    pin_hash IS NULL OR btrim(pin_hash) <> ''
+  );
+
+-- Wrong PIN attempts reuse check_shared_recipe_link_rate_limit under the key
+-- 'pin:<token>': once per client IP hash, and once under client_ip_hash '*'
+-- for the share as a whole. No schema change is needed for that.
@@ -0,0 +1,58 @@
+-- Migration: 20261019090000_add_shared_recipe_bundles
+-- Description: Bundle shares (a meal or collection as several recipe snapshots in one link) with per-recipe images.
+
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS share_type text NOT NULL DEFAULT 'recipe';
+
+-- Index-aligned with recipe_payload.recipes for bundles: each entry is null or
+-- { "original": ..., "thumbnail": ..., "og": ... } storage paths.
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS item_image_paths jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.shared_recipe_links
+  DROP CONSTRAINT IF EXISTS shared_recipe_links_share_type_check;
+
+ALTER TABLE public.shared_recipe_links
+  ADD CONSTRAINT shared_recipe_links_share_type_check CHECK (
+    share_type IN ('recipe', 'bundle')
+  );
+
+ALTER TABLE public.shared_recipe_links
+  DROP CONSTRAINT IF EXISTS shared_recipe_links_item_image_paths_is_array;
+
+ALTER TABLE public.shared_recipe_links
+  ADD CONSTRAINT shared_recipe_links_item_image_paths_is_array CHECK (
+    jsonb_typeof(item_image_paths) = 'array'
+  );
+
+-- A bundle uploads its cover and recipe images under one share token, so a
+-- token can now hold several reservations.
+ALTER TABLE public.shared_recipe_image_uploads
+  DROP CONSTRAINT IF EXISTS shared_recipe_image_uploads_token_unique;
+
+CREATE INDEX IF NOT EXISTS idx_shared_recipe_image_uploads_token
+  ON public.shared_recipe_image_uploads (token);
+
+-- Return type changes, so the function has to be recreated.
+DROP FUNCTION IF EXISTS public.get_expired_shared_recipe_links_for_cleanup(integer);
+
+CREATE OR REPLACE FUNCTION public.get_expired_shared_recipe_links_for_cleanup(p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  id uuid,
+  image_path text,
+  image_variant_paths jsonb,
+  item_image_paths jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT srl.id, srl.image_path, srl.image_variant_paths, srl.item_image_paths
+  FROM public.shared_recipe_links srl
+  WHERE (srl.expires_at IS NOT NULL AND srl.expires_at <= now())
+     OR srl.revoked_at IS NOT NULL
+  ORDER BY srl.expires_at ASC NULLS LAST, srl.id ASC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expired_shared_recipe_links_for_cleanup(integer) TO service_role;
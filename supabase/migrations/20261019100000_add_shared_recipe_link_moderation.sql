@@ -0,0 +1,21 @@
+-- Migration: 20261019100000_add_shared_recipe_link_moderation
+-- Description: Record content-screening results on shared recipe links so flagged shares can be reviewed.
+
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS moderation_status text NOT NULL DEFAULT 'clean';
+
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS moderation_reasons text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.shared_recipe_links
+  DROP CONSTRAINT IF EXISTS shared_recipe_links_moderation_status_check;
+
+ALTER TABLE public.shared_recipe_links
+  ADD CONSTRAINT shared_recipe_links_moderation_status_check CHECK (
+    moderation_status IN ('clean', 'flagged')
+  );
+
+-- Review queue: flagged shares, newest first.
+CREATE INDEX IF NOT EXISTS idx_shared_recipe_links_flagged
+  ON public.shared_recipe_links (created_at DESC)
+  WHERE moderation_status = 'flagged';
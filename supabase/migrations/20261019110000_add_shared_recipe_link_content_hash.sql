@@ -0,0 +1,11 @@
+-- Migration: 20261019110000_add_shared_recipe_link_content_hash
+-- Description: Fingerprint shared recipe content so a repeat share by the same owner reuses the active link.
+
+-- "v1:<sha256 hex>" of the normalised payload and image hashes; null for rows
+-- created before this migration, which are simply never reused.
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_shared_recipe_links_owner_content_hash
+  ON public.shared_recipe_links (owner_user_profile_id, content_hash, created_at DESC)
+  WHERE revoked_at IS NULL AND content_hash IS NOT NULL;
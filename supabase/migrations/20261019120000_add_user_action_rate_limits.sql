@@ -0,0 +1,119 @@
+-- Migration: 20261019120000_add_user_action_rate_limits
+-- Description: Postgres-backed per-user rate limiting keyed by action, with fixed windows of any length.
+
+CREATE TABLE IF NOT EXISTS public.user_action_rate_limit_windows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_profile_id uuid NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+  action text NOT NULL,
+  window_seconds integer NOT NULL,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT user_action_rate_limit_windows_action_not_blank CHECK (btrim(action) <> ''),
+  CONSTRAINT user_action_rate_limit_windows_window_seconds_positive CHECK (window_seconds > 0),
+  CONSTRAINT user_action_rate_limit_windows_request_count_positive CHECK (request_count >= 0),
+  CONSTRAINT user_action_rate_limit_windows_unique UNIQUE (user_profile_id, action, window_seconds, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_action_rate_limit_windows_cleanup
+  ON public.user_action_rate_limit_windows (window_start);
+
+DROP TRIGGER IF EXISTS set_user_action_rate_limit_windows_updated_at ON public.user_action_rate_limit_windows;
+CREATE TRIGGER set_user_action_rate_limit_windows_updated_at
+  BEFORE UPDATE ON public.user_action_rate_limit_windows
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.user_action_rate_limit_windows ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.user_action_rate_limit_windows TO service_role;
+
+-- Counts one request against the window containing now(). Windows are aligned
+-- to multiples of p_window_seconds since the epoch, so a 60 s window resets on
+-- the minute and an 86400 s window at 00:00 UTC.
+CREATE OR REPLACE FUNCTION public.check_user_action_rate_limit(
+  p_user_profile_id uuid,
+  p_action text,
+  p_limit integer,
+  p_window_seconds integer
+)
+RETURNS TABLE (
+  allowed boolean,
+  request_count integer,
+  remaining integer,
+  limit_value integer,
+  reset_at timestamptz,
+  retry_after_seconds integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_count integer;
+  v_limit integer := GREATEST(COALESCE(p_limit, 1), 1);
+  v_window_seconds integer := GREATEST(COALESCE(p_window_seconds, 60), 1);
+  v_window_start timestamptz := to_timestamp(
+    floor(EXTRACT(EPOCH FROM now()) / v_window_seconds) * v_window_seconds
+  );
+  v_reset_at timestamptz := v_window_start + make_interval(secs => v_window_seconds);
+BEGIN
+  INSERT INTO public.user_action_rate_limit_windows (
+    user_profile_id,
+    action,
+    window_seconds,
+    window_start,
+    request_count
+  )
+  VALUES (
+    p_user_profile_id,
+    p_action,
+    v_window_seconds,
+    v_window_start,
+    1
+  )
+  ON CONFLICT (user_profile_id, action, window_seconds, window_start)
+  DO UPDATE
+  SET
+    request_count = public.user_action_rate_limit_windows.request_count + 1,
+    updated_at = now()
+  RETURNING public.user_action_rate_limit_windows.request_count
+  INTO v_request_count;
+
+  RETURN QUERY
+  SELECT
+    v_request_count <= v_limit,
+    v_request_count,
+    GREATEST(v_limit - v_request_count, 0),
+    v_limit,
+    v_reset_at,
+    GREATEST(CEIL(EXTRACT(EPOCH FROM (v_reset_at - now())))::integer, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_user_action_rate_limit(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_user_action_rate_limit(uuid, text, integer, integer) TO service_role;
+
+-- Deletes windows that ended more than p_older_than ago.
+CREATE OR REPLACE FUNCTION public.cleanup_user_action_rate_limit_windows(
+  p_older_than interval DEFAULT interval '1 hour'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_count integer;
+BEGIN
+  DELETE FROM public.user_action_rate_limit_windows
+  WHERE window_start + make_interval(secs => window_seconds) < (now() - p_older_than);
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+  RETURN v_deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cleanup_user_action_rate_limit_windows(interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cleanup_user_action_rate_limit_windows(interval) TO service_role;
@@ -0,0 +1,15 @@
+-- Migration: 20261019130000_disallow_webp_shared_recipe_images
+-- Description: Stop accepting WebP shared recipe images; the share image sanitiser cannot decode them.
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/jpeg', 'image/png']
+WHERE id = 'shared-recipe-images';
+
+-- NOT VALID: reservations already made for WebP expire and are cleaned up as usual.
+ALTER TABLE public.shared_recipe_image_uploads
+  DROP CONSTRAINT IF EXISTS shared_recipe_image_uploads_content_type_check;
+
+ALTER TABLE public.shared_recipe_image_uploads
+  ADD CONSTRAINT shared_recipe_image_uploads_content_type_check CHECK (
+    content_type IN ('image/jpeg', 'image/png')
+  ) NOT VALID;
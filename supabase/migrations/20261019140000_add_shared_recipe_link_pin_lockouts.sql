@@ -0,0 +1,196 @@
+-- Migration: 20261019140000_add_shared_recipe_link_pin_lockouts
+-- Description: Count PIN attempts before verifying them, with lockouts that double each time, per client and per share.
+
+-- One row per share and client IP hash, plus one under client_key '*' for the
+-- share as a whole. attempt_count counts attempts since the last lockout; a
+-- correct PIN clears the client's row and refunds its attempt on '*'.
+CREATE TABLE IF NOT EXISTS public.shared_recipe_link_pin_attempts (
+  link_id uuid NOT NULL REFERENCES public.shared_recipe_links(id) ON DELETE CASCADE,
+  client_key text NOT NULL,
+  attempt_count integer NOT NULL DEFAULT 0,
+  lockout_count integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  last_attempt_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (link_id, client_key),
+  CONSTRAINT shared_recipe_link_pin_attempts_client_key_not_blank CHECK (btrim(client_key) <> ''),
+  CONSTRAINT shared_recipe_link_pin_attempts_counts_positive CHECK (attempt_count >= 0 AND lockout_count >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_recipe_link_pin_attempts_cleanup
+  ON public.shared_recipe_link_pin_attempts (last_attempt_at);
+
+DROP TRIGGER IF EXISTS set_shared_recipe_link_pin_attempts_updated_at ON public.shared_recipe_link_pin_attempts;
+CREATE TRIGGER set_shared_recipe_link_pin_attempts_updated_at
+  BEFORE UPDATE ON public.shared_recipe_link_pin_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.shared_recipe_link_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.shared_recipe_link_pin_attempts TO service_role;
+
+-- Takes one attempt from a single row, under a row lock so concurrent
+-- attempts are counted one by one. The attempt that reaches p_max_attempts is
+-- still allowed but starts a lockout of 1 minute, doubling with every lockout
+-- up to a day. A quiet day after the last attempt and lockout forgets them.
+CREATE OR REPLACE FUNCTION public.take_shared_recipe_link_pin_attempt(
+  p_link_id uuid,
+  p_client_key text,
+  p_max_attempts integer
+)
+RETURNS TABLE (
+  allowed boolean,
+  remaining integer,
+  retry_after_seconds integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.shared_recipe_link_pin_attempts%ROWTYPE;
+  v_max_attempts integer := GREATEST(COALESCE(p_max_attempts, 1), 1);
+BEGIN
+  INSERT INTO public.shared_recipe_link_pin_attempts (link_id, client_key)
+  VALUES (p_link_id, p_client_key)
+  ON CONFLICT (link_id, client_key) DO NOTHING;
+
+  SELECT *
+  INTO v_row
+  FROM public.shared_recipe_link_pin_attempts a
+  WHERE a.link_id = p_link_id
+    AND a.client_key = p_client_key
+  FOR UPDATE;
+
+  IF GREATEST(v_row.last_attempt_at, v_row.locked_until) < now() - interval '1 day' THEN
+    v_row.attempt_count := 0;
+    v_row.lockout_count := 0;
+  END IF;
+
+  IF v_row.locked_until > now() THEN
+    RETURN QUERY
+    SELECT
+      false,
+      0,
+      GREATEST(CEIL(EXTRACT(EPOCH FROM (v_row.locked_until - now())))::integer, 1);
+    RETURN;
+  END IF;
+
+  v_row.attempt_count := v_row.attempt_count + 1;
+  remaining := v_max_attempts - v_row.attempt_count;
+
+  IF v_row.attempt_count >= v_max_attempts THEN
+    v_row.locked_until := now() + LEAST(
+      interval '1 minute' * power(2, LEAST(v_row.lockout_count, 11)),
+      interval '1 day'
+    );
+    v_row.lockout_count := v_row.lockout_count + 1;
+    v_row.attempt_count := 0;
+  END IF;
+
+  UPDATE public.shared_recipe_link_pin_attempts a
+  SET
+    attempt_count = v_row.attempt_count,
+    lockout_count = v_row.lockout_count,
+    locked_until = v_row.locked_until,
+    last_attempt_at = now()
+  WHERE a.link_id = p_link_id
+    AND a.client_key = p_client_key;
+
+  RETURN QUERY SELECT true, GREATEST(remaining, 0), 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.take_shared_recipe_link_pin_attempt(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+-- Counts one attempt for the client, then for the share as a whole. A client
+-- that is locked out does not use up the share's attempts.
+CREATE OR REPLACE FUNCTION public.begin_shared_recipe_link_pin_attempt(
+  p_link_id uuid,
+  p_client_ip_hash text,
+  p_client_limit integer,
+  p_share_limit integer
+)
+RETURNS TABLE (
+  allowed boolean,
+  remaining integer,
+  retry_after_seconds integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client record;
+  v_share record;
+BEGIN
+  SELECT * INTO v_client
+  FROM public.take_shared_recipe_link_pin_attempt(p_link_id, p_client_ip_hash, p_client_limit);
+
+  IF NOT v_client.allowed THEN
+    RETURN QUERY SELECT v_client.allowed, v_client.remaining, v_client.retry_after_seconds;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_share
+  FROM public.take_shared_recipe_link_pin_attempt(p_link_id, '*', p_share_limit);
+
+  RETURN QUERY
+  SELECT
+    v_share.allowed,
+    LEAST(v_client.remaining, v_share.remaining),
+    v_share.retry_after_seconds;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.begin_shared_recipe_link_pin_attempt(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_shared_recipe_link_pin_attempt(uuid, text, integer, integer) TO service_role;
+
+-- After a correct PIN: forget the client's attempts and give the share its
+-- attempt back, so legitimate viewers never use up the share's budget.
+CREATE OR REPLACE FUNCTION public.clear_shared_recipe_link_pin_attempt(
+  p_link_id uuid,
+  p_client_ip_hash text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.shared_recipe_link_pin_attempts a
+  WHERE a.link_id = p_link_id
+    AND a.client_key = p_client_ip_hash;
+
+  UPDATE public.shared_recipe_link_pin_attempts a
+  SET attempt_count = GREATEST(a.attempt_count - 1, 0)
+  WHERE a.link_id = p_link_id
+    AND a.client_key = '*';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.clear_shared_recipe_link_pin_attempt(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.clear_shared_recipe_link_pin_attempt(uuid, text) TO service_role;
+
+-- Removes rows that take_shared_recipe_link_pin_attempt would reset anyway.
+CREATE OR REPLACE FUNCTION public.cleanup_shared_recipe_link_pin_attempts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_count integer;
+BEGIN
+  DELETE FROM public.shared_recipe_link_pin_attempts
+  WHERE GREATEST(last_attempt_at, locked_until) < now() - interval '1 day';
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+  RETURN v_deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cleanup_shared_recipe_link_pin_attempts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cleanup_shared_recipe_link_pin_attempts() TO service_role;
@@ -0,0 +1,64 @@
+-- Migration: 20261019150000_keep_shared_recipe_link_tombstones
+-- Description: Keep expired and revoked share rows as tombstones for 30 days, deleting only their images at first.
+
+-- Set once the cleanup job has deleted the share's images and cleared its paths.
+ALTER TABLE public.shared_recipe_links
+  ADD COLUMN IF NOT EXISTS images_purged_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_shared_recipe_links_tombstones
+  ON public.shared_recipe_links (LEAST(COALESCE(revoked_at, 'infinity'), COALESCE(expires_at, 'infinity')))
+  WHERE images_purged_at IS NOT NULL;
+
+-- Now returns only ended shares whose images have not been purged yet; the
+-- rows themselves stay behind as tombstones.
+CREATE OR REPLACE FUNCTION public.get_expired_shared_recipe_links_for_cleanup(p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  id uuid,
+  image_path text,
+  image_variant_paths jsonb,
+  item_image_paths jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT srl.id, srl.image_path, srl.image_variant_paths, srl.item_image_paths
+  FROM public.shared_recipe_links srl
+  WHERE ((srl.expires_at IS NOT NULL AND srl.expires_at <= now())
+     OR srl.revoked_at IS NOT NULL)
+    AND srl.images_purged_at IS NULL
+  ORDER BY srl.expires_at ASC NULLS LAST, srl.id ASC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+$$;
+
+-- Deletes tombstones whose share ended (revoked or expired, whichever came
+-- first) more than p_retention ago. Views and PIN attempts go with them.
+CREATE OR REPLACE FUNCTION public.delete_shared_recipe_link_tombstones(
+  p_retention interval DEFAULT interval '30 days',
+  p_limit integer DEFAULT 500
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_count integer;
+BEGIN
+  DELETE FROM public.shared_recipe_links srl
+  WHERE srl.id IN (
+    SELECT t.id
+    FROM public.shared_recipe_links t
+    WHERE t.images_purged_at IS NOT NULL
+      AND LEAST(COALESCE(t.revoked_at, 'infinity'), COALESCE(t.expires_at, 'infinity'))
+        < now() - COALESCE(p_retention, interval '30 days')
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 500)
+  );
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+  RETURN v_deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.delete_shared_recipe_link_tombstones(interval, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_shared_recipe_link_tombstones(interval, integer) TO service_role;
@@ -0,0 +1,131 @@
+-- Migration: 20261019160000_add_import_quota_reservations
+-- Description: Reserve import quota atomically per user, so parallel imports cannot all pass the same usage count.
+
+-- Imports that passed the quota check and are on their way to FastAPI, which
+-- creates their imported_content rows. A reservation is deleted once the
+-- backend call returns; one left by a crashed call stops counting at expires_at.
+CREATE TABLE IF NOT EXISTS public.import_quota_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_profile_id uuid NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+  slots integer NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT import_quota_reservations_slots_positive CHECK (slots > 0),
+  CONSTRAINT import_quota_reservations_expires_after_create CHECK (expires_at > created_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_quota_reservations_user_expires_at
+  ON public.import_quota_reservations (user_profile_id, expires_at);
+
+ALTER TABLE public.import_quota_reservations ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.import_quota_reservations FROM anon, authenticated;
+GRANT ALL ON TABLE public.import_quota_reservations TO service_role;
+
+-- Counts the user's imports in the window plus their open reservations, and
+-- reserves up to p_requested of what is left. Calls for one user are
+-- serialised by an advisory lock, so two calls never see the same count.
+-- import_limit is NULL (and everything granted) when the plan has no active
+-- quota.
+CREATE OR REPLACE FUNCTION public.reserve_import_quota(
+  p_user_profile_id uuid,
+  p_requested integer,
+  p_ttl interval DEFAULT interval '5 minutes'
+)
+RETURNS TABLE (
+  reservation_id uuid,
+  granted integer,
+  plan text,
+  import_limit integer,
+  used integer,
+  window_seconds integer,
+  reset_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_requested integer := GREATEST(COALESCE(p_requested, 1), 0);
+  v_is_pro boolean;
+  v_plan text;
+  v_limit integer;
+  v_window_seconds integer;
+  v_window_start timestamptz;
+  v_imported integer;
+  v_reserved integer;
+  v_oldest timestamptz;
+  v_granted integer;
+  v_reservation_id uuid;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('import_quota:' || p_user_profile_id::text, 0));
+
+  SELECT up.is_pro INTO v_is_pro
+  FROM public.user_profile up
+  WHERE up.id = p_user_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'user_profile % not found', p_user_profile_id;
+  END IF;
+
+  v_plan := CASE WHEN v_is_pro IS TRUE THEN 'pro' ELSE 'free' END;
+
+  SELECT q.import_limit, q.window_seconds INTO v_limit, v_window_seconds
+  FROM public.import_quota_plans q
+  WHERE q.plan = v_plan
+    AND q.is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::uuid, v_requested, v_plan, NULL::integer, NULL::integer, NULL::integer, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  DELETE FROM public.import_quota_reservations r
+  WHERE r.user_profile_id = p_user_profile_id
+    AND r.expires_at <= now();
+
+  v_window_start := now() - make_interval(secs => v_window_seconds);
+
+  SELECT count(*)::integer, min(ic.created_at) INTO v_imported, v_oldest
+  FROM public.imported_content ic
+  WHERE ic.user_id = p_user_profile_id
+    AND ic.created_at >= v_window_start;
+
+  SELECT COALESCE(sum(r.slots), 0)::integer INTO v_reserved
+  FROM public.import_quota_reservations r
+  WHERE r.user_profile_id = p_user_profile_id;
+
+  v_granted := LEAST(GREATEST(v_limit - v_imported - v_reserved, 0), v_requested);
+
+  IF v_granted > 0 THEN
+    INSERT INTO public.import_quota_reservations (user_profile_id, slots, expires_at)
+    VALUES (p_user_profile_id, v_granted, now() + COALESCE(p_ttl, interval '5 minutes'))
+    RETURNING id INTO v_reservation_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_reservation_id,
+    v_granted,
+    v_plan,
+    v_limit,
+    v_imported + v_reserved,
+    v_window_seconds,
+    COALESCE(v_oldest, now()) + make_interval(secs => v_window_seconds);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_import_quota(uuid, integer, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_import_quota(uuid, integer, interval) TO service_role;
+
+INSERT INTO public.error_messages (error_code, language, title, message)
+VALUES
+  ('QUOTA_UNAVAILABLE', 'EN', 'Import temporarily unavailable', 'We could not check your import limit. Please try again in a minute.'),
+  ('QUOTA_UNAVAILABLE', 'BM', 'Import tidak tersedia buat sementara', 'Kami tidak dapat menyemak had import anda. Sila cuba lagi sebentar lagi.')
+ON CONFLICT (error_code, language) DO UPDATE
+SET
+  title = EXCLUDED.title,
+  message = EXCLUDED.message,
+  is_active = true,
+  updated_at = now();